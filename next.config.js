@@ -5,6 +5,13 @@
 import "./src/env.js";
 
 /** @type {import("next").NextConfig} */
-const config = {};
+const config = {
+  experimental: {
+    serverActions: {
+      // Archive uploads, see MAX_ARCHIVE_BYTES in src/lib/archives.ts
+      bodySizeLimit: "50mb",
+    },
+  },
+};
 
 export default config;
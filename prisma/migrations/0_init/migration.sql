@@ -0,0 +1,302 @@
+-- The schema as it was before migrations were kept. Databases created with
+-- db push are marked as already having it:
+--   npx prisma migrate resolve --applied 0_init
+
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- CreateEnum
+CREATE TYPE "RepoProvider" AS ENUM ('GITHUB', 'GITLAB', 'BITBUCKET', 'GITEA', 'GIT', 'ARCHIVE');
+
+-- CreateEnum
+CREATE TYPE "SymbolKind" AS ENUM ('FUNCTION', 'CLASS', 'INTERFACE', 'TYPE', 'ENUM', 'CONSTANT');
+
+-- CreateEnum
+CREATE TYPE "IndexingJobStatus" AS ENUM ('QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "CreditTransactionType" AS ENUM ('GRANT', 'PURCHASE', 'SPEND', 'REFUND');
+
+-- CreateEnum
+CREATE TYPE "CreditOperation" AS ENUM ('INDEXING', 'COMMIT_SUMMARY', 'QUESTION');
+
+-- CreateEnum
+CREATE TYPE "SummaryRegenerationStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "User" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "imageUrl" TEXT,
+    "firstName" TEXT,
+    "lastName" TEXT,
+    "email" TEXT NOT NULL,
+    "credits" INTEGER NOT NULL DEFAULT 150,
+
+    CONSTRAINT "User_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Project" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "name" TEXT NOT NULL,
+    "githubUrl" TEXT NOT NULL,
+    "provider" "RepoProvider" NOT NULL DEFAULT 'GITHUB',
+    "branch" TEXT NOT NULL DEFAULT 'main',
+    "includeGlobs" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "excludeGlobs" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "commitSummaryModel" TEXT,
+    "codeSummaryModel" TEXT,
+    "answerModel" TEXT,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Project_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UserToProject" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+
+    CONSTRAINT "UserToProject_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Commit" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "commitMessage" TEXT NOT NULL,
+    "commitHash" TEXT NOT NULL,
+    "commitAuthorName" TEXT NOT NULL,
+    "commitAuthorAvatar" TEXT NOT NULL,
+    "commitDate" TIMESTAMP(3) NOT NULL,
+    "summary" TEXT NOT NULL,
+    "summaryPromptVersion" TEXT,
+    "summaryModel" TEXT,
+
+    CONSTRAINT "Commit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SourceCodeEmbedding" (
+    "id" TEXT NOT NULL,
+    "summaryEmbedding" vector,
+    "embeddingModel" TEXT,
+    "embeddingDimensions" INTEGER,
+    "sourceCode" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "summary" TEXT NOT NULL,
+    "summaryPromptVersion" TEXT,
+    "summaryModel" TEXT,
+    "searchVector" tsvector,
+    "projectId" TEXT NOT NULL,
+
+    CONSTRAINT "SourceCodeEmbedding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SourceCodeChunk" (
+    "id" TEXT NOT NULL,
+    "embedding" vector,
+    "embeddingModel" TEXT,
+    "embeddingDimensions" INTEGER,
+    "content" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "startLine" INTEGER NOT NULL,
+    "endLine" INTEGER NOT NULL,
+    "sourceCodeEmbeddingId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+
+    CONSTRAINT "SourceCodeChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CodeSymbol" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" "SymbolKind" NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "line" INTEGER NOT NULL,
+    "exported" BOOLEAN NOT NULL,
+    "sourceCodeEmbeddingId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+
+    CONSTRAINT "CodeSymbol_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FileDependency" (
+    "id" TEXT NOT NULL,
+    "fromFile" TEXT NOT NULL,
+    "toFile" TEXT NOT NULL,
+    "sourceCodeEmbeddingId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+
+    CONSTRAINT "FileDependency_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EmbeddingCache" (
+    "hash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "summary" TEXT,
+    "embedding" vector,
+
+    CONSTRAINT "EmbeddingCache_pkey" PRIMARY KEY ("hash")
+);
+
+-- CreateTable
+CREATE TABLE "IndexingJob" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "userId" TEXT,
+    "status" "IndexingJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "githubToken" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "filesDiscovered" INTEGER NOT NULL DEFAULT 0,
+    "filesSummarised" INTEGER NOT NULL DEFAULT 0,
+    "filesEmbedded" INTEGER NOT NULL DEFAULT 0,
+    "filesFailed" INTEGER NOT NULL DEFAULT 0,
+    "creditsCharged" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "IndexingJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CreditTransaction" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "type" "CreditTransactionType" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "balanceAfter" INTEGER NOT NULL,
+    "description" TEXT,
+    "operation" "CreditOperation",
+    "projectId" TEXT,
+    "paymentId" TEXT,
+
+    CONSTRAINT "CreditTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SummaryRegenerationJob" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "projectId" TEXT,
+    "status" "SummaryRegenerationStatus" NOT NULL DEFAULT 'RUNNING',
+    "budget" INTEGER NOT NULL,
+    "error" TEXT,
+    "finishedAt" TIMESTAMP(3),
+    "commitsRegenerated" INTEGER NOT NULL DEFAULT 0,
+    "filesRegenerated" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "SummaryRegenerationJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserToProject_userId_projectId_key" ON "UserToProject"("userId", "projectId");
+
+-- CreateIndex
+CREATE INDEX "Commit_summaryPromptVersion_idx" ON "Commit"("summaryPromptVersion");
+
+-- CreateIndex
+CREATE INDEX "SourceCodeEmbedding_projectId_embeddingModel_idx" ON "SourceCodeEmbedding"("projectId", "embeddingModel");
+
+-- CreateIndex
+CREATE INDEX "SourceCodeEmbedding_summaryPromptVersion_idx" ON "SourceCodeEmbedding"("summaryPromptVersion");
+
+-- CreateIndex
+CREATE INDEX "SourceCodeEmbedding_searchVector_idx" ON "SourceCodeEmbedding" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "SourceCodeChunk_projectId_embeddingModel_idx" ON "SourceCodeChunk"("projectId", "embeddingModel");
+
+-- CreateIndex
+CREATE INDEX "CodeSymbol_projectId_name_idx" ON "CodeSymbol"("projectId", "name");
+
+-- CreateIndex
+CREATE INDEX "CodeSymbol_name_idx" ON "CodeSymbol" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "FileDependency_projectId_fromFile_idx" ON "FileDependency"("projectId", "fromFile");
+
+-- CreateIndex
+CREATE INDEX "FileDependency_projectId_toFile_idx" ON "FileDependency"("projectId", "toFile");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FileDependency_sourceCodeEmbeddingId_toFile_key" ON "FileDependency"("sourceCodeEmbeddingId", "toFile");
+
+-- CreateIndex
+CREATE INDEX "IndexingJob_status_createdAt_idx" ON "IndexingJob"("status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditTransaction_paymentId_key" ON "CreditTransaction"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "CreditTransaction_userId_createdAt_idx" ON "CreditTransaction"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "UserToProject" ADD CONSTRAINT "UserToProject_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserToProject" ADD CONSTRAINT "UserToProject_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Commit" ADD CONSTRAINT "Commit_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SourceCodeEmbedding" ADD CONSTRAINT "SourceCodeEmbedding_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SourceCodeChunk" ADD CONSTRAINT "SourceCodeChunk_sourceCodeEmbeddingId_fkey" FOREIGN KEY ("sourceCodeEmbeddingId") REFERENCES "SourceCodeEmbedding"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SourceCodeChunk" ADD CONSTRAINT "SourceCodeChunk_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CodeSymbol" ADD CONSTRAINT "CodeSymbol_sourceCodeEmbeddingId_fkey" FOREIGN KEY ("sourceCodeEmbeddingId") REFERENCES "SourceCodeEmbedding"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CodeSymbol" ADD CONSTRAINT "CodeSymbol_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FileDependency" ADD CONSTRAINT "FileDependency_sourceCodeEmbeddingId_fkey" FOREIGN KEY ("sourceCodeEmbeddingId") REFERENCES "SourceCodeEmbedding"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FileDependency" ADD CONSTRAINT "FileDependency_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IndexingJob" ADD CONSTRAINT "IndexingJob_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IndexingJob" ADD CONSTRAINT "IndexingJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditTransaction" ADD CONSTRAINT "CreditTransaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditTransaction" ADD CONSTRAINT "CreditTransaction_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummaryRegenerationJob" ADD CONSTRAINT "SummaryRegenerationJob_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
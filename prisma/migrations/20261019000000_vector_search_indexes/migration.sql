@@ -0,0 +1,29 @@
+-- HNSW indexes for cosine-distance search, see performVectorSearch in
+-- src/lib/search.ts. The vector columns have no fixed size, since it depends
+-- on the embedding model, and pgvector can only index fixed-size vectors. So
+-- there's one partial expression index per size in use, and queries cast to
+-- the same vector(n) type for the planner to pick them. Models with another
+-- size are still searched, with an exact scan, until an index is added here.
+--
+-- m and ef_construction are pgvector's defaults, written out so they can be
+-- tuned. Query-time recall is tuned with VECTOR_SEARCH_EF_SEARCH.
+
+-- CreateIndex
+CREATE INDEX "SourceCodeEmbedding_summaryEmbedding_768_idx" ON "SourceCodeEmbedding"
+USING hnsw (("summaryEmbedding"::vector(768)) vector_cosine_ops) WITH (m = 16, ef_construction = 64)
+WHERE "embeddingDimensions" = 768;
+
+-- CreateIndex
+CREATE INDEX "SourceCodeEmbedding_summaryEmbedding_1536_idx" ON "SourceCodeEmbedding"
+USING hnsw (("summaryEmbedding"::vector(1536)) vector_cosine_ops) WITH (m = 16, ef_construction = 64)
+WHERE "embeddingDimensions" = 1536;
+
+-- CreateIndex
+CREATE INDEX "SourceCodeChunk_embedding_768_idx" ON "SourceCodeChunk"
+USING hnsw (("embedding"::vector(768)) vector_cosine_ops) WITH (m = 16, ef_construction = 64)
+WHERE "embeddingDimensions" = 768;
+
+-- CreateIndex
+CREATE INDEX "SourceCodeChunk_embedding_1536_idx" ON "SourceCodeChunk"
+USING hnsw (("embedding"::vector(1536)) vector_cosine_ops) WITH (m = 16, ef_construction = 64)
+WHERE "embeddingDimensions" = 1536;
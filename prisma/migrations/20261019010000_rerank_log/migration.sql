@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "RerankLog" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "projectId" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "model" TEXT,
+    "candidates" JSONB NOT NULL,
+
+    CONSTRAINT "RerankLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RerankLog_projectId_createdAt_idx" ON "RerankLog"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "RerankLog" ADD CONSTRAINT "RerankLog_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
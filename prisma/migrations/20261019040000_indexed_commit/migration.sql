@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "indexedCommit" TEXT;
+
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "indexedCommit" TEXT;
@@ -0,0 +1,9 @@
+-- Overlapping polls could store a commit twice, keep the oldest row
+DELETE FROM "Commit" a
+USING "Commit" b
+WHERE a."projectId" = b."projectId"
+  AND a."commitHash" = b."commitHash"
+  AND (a."createdAt", a."id") > (b."createdAt", b."id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Commit_projectId_commitHash_key" ON "Commit"("projectId", "commitHash");
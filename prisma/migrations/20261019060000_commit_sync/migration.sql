@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Commit" ADD COLUMN     "syncedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "syncError" TEXT;
+
+-- Commits stored before this were synced when they were polled, or never will be
+UPDATE "Commit" SET "syncedAt" = "createdAt";
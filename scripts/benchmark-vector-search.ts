@@ -0,0 +1,177 @@
+/**
+ * Measures vector search latency as a project's embeddings grow, against a
+ * throwaway project filled with synthetic vectors:
+ *
+ *   bun run benchmark:vector-search [sizes...]
+ *
+ * Sizes are file counts, 1000 5000 20000 by default, and every file gets
+ * CHUNKS_PER_FILE chunk vectors too. The vectors are grouped in clusters so
+ * questions have several files above the similarity threshold, like a real
+ * project does. Recall compares the indexed search with an exact scan, raise
+ * VECTOR_SEARCH_EF_SEARCH if it's low.
+ *
+ * Uses the database and embedding size from .env, the project is deleted
+ * afterwards.
+ */
+import { getEmbeddingProvider } from "@/lib/embedding-providers";
+import {
+  MAX_RESULTS,
+  performVectorSearch,
+  SIMILARITY_THRESHOLD,
+} from "@/lib/search";
+import { db } from "@/server/db";
+import { Prisma } from "@prisma/client";
+
+const DEFAULT_SIZES = [1000, 5000, 20000];
+const CHUNKS_PER_FILE = 3;
+const CLUSTERS = 50;
+// Spread of a vector around its cluster centre, members end up ~0.6 similar
+const NOISE = 0.8;
+const QUERIES = 50;
+const BATCH_SIZE = 200;
+
+const sizes = process.argv.slice(2).map(Number);
+if (sizes.some((size) => !Number.isInteger(size) || size <= 0)) {
+  console.error("Sizes must be positive whole numbers of files");
+  process.exit(1);
+}
+
+const { model, dimensions } = getEmbeddingProvider();
+
+const gaussian = () =>
+  Math.sqrt(-2 * Math.log(1 - Math.random())) *
+  Math.cos(2 * Math.PI * Math.random());
+
+const normalise = (vector: number[]) => {
+  const length = Math.hypot(...vector);
+  return vector.map((value) => value / length);
+};
+
+const centres = Array.from({ length: CLUSTERS }, () =>
+  normalise(Array.from({ length: dimensions }, gaussian)),
+);
+
+const randomVector = () => {
+  const centre = centres[Math.floor(Math.random() * CLUSTERS)]!;
+  const spread = NOISE / Math.sqrt(dimensions);
+  return `[${normalise(centre.map((value) => value + gaussian() * spread)).join(
+    ",",
+  )}]`;
+};
+
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))]!;
+};
+
+const insertFiles = async (projectId: string, from: number, to: number) => {
+  for (let start = from; start < to; start += BATCH_SIZE) {
+    const ids = Array.from(
+      { length: Math.min(BATCH_SIZE, to - start) },
+      (_, i) => `${projectId}-${start + i}`,
+    );
+    await db.$executeRaw`
+      INSERT INTO "SourceCodeEmbedding"
+        ("id", "fileName", "sourceCode", "summary", "projectId", "embeddingModel", "embeddingDimensions", "summaryEmbedding")
+      VALUES ${Prisma.join(
+        ids.map(
+          (id) =>
+            Prisma.sql`(${id}, ${`src/${id}.ts`}, '', '', ${projectId}, ${model}, ${dimensions}, ${randomVector()}::vector)`,
+        ),
+      )}
+    `;
+    await db.$executeRaw`
+      INSERT INTO "SourceCodeChunk"
+        ("id", "content", "fileName", "startLine", "endLine", "sourceCodeEmbeddingId", "projectId", "embeddingModel", "embeddingDimensions", "embedding")
+      VALUES ${Prisma.join(
+        ids.flatMap((id) =>
+          Array.from(
+            { length: CHUNKS_PER_FILE },
+            (_, chunk) =>
+              Prisma.sql`(${`${id}-${chunk}`}, '', ${`src/${id}.ts`}, 1, 1, ${id}, ${projectId}, ${model}, ${dimensions}, ${randomVector()}::vector)`,
+          ),
+        ),
+      )}
+    `;
+  }
+};
+
+// Without the cast the indexes don't apply, so this scans every row
+const exactSearch = async (vectorQuery: string, projectId: string) => {
+  const rows = await db.$queryRaw<{ fileName: string }[]>`
+    SELECT "fileName"
+    FROM "SourceCodeEmbedding"
+    WHERE
+      "projectId" = ${projectId}
+      AND 1 - ("summaryEmbedding" <=> ${vectorQuery}::vector) > ${SIMILARITY_THRESHOLD}
+    ORDER BY "summaryEmbedding" <=> ${vectorQuery}::vector
+    LIMIT ${MAX_RESULTS}
+  `;
+  return rows.map((row) => row.fileName);
+};
+
+const benchmark = async (projectId: string, files: number) => {
+  await db.$executeRaw`ANALYZE "SourceCodeEmbedding", "SourceCodeChunk"`;
+
+  const latencies: number[] = [];
+  let found = 0;
+  let expected = 0;
+  for (let i = 0; i < QUERIES; i++) {
+    const vectorQuery = randomVector();
+    const queryVector = JSON.parse(vectorQuery) as number[];
+
+    const start = performance.now();
+    const { fileResults } = await performVectorSearch(queryVector, projectId);
+    latencies.push(performance.now() - start);
+
+    const exact = await exactSearch(vectorQuery, projectId);
+    const results = new Set(fileResults.map((file) => file.fileName));
+    found += exact.filter((fileName) => results.has(fileName)).length;
+    expected += exact.length;
+  }
+
+  return {
+    files,
+    chunks: files * CHUNKS_PER_FILE,
+    "p50 ms": percentile(latencies, 0.5).toFixed(1),
+    "p95 ms": percentile(latencies, 0.95).toFixed(1),
+    recall: expected > 0 ? (found / expected).toFixed(3) : "-",
+  };
+};
+
+const main = async () => {
+  const project = await db.project.create({
+    data: { name: "Vector search benchmark", repoUrl: "benchmark" },
+  });
+  console.log(
+    `Benchmarking ${model} (${dimensions} dimensions) in project ${project.id}`,
+  );
+
+  try {
+    const results = [];
+    let inserted = 0;
+    const steps = (sizes.length > 0 ? sizes : DEFAULT_SIZES).sort(
+      (a, b) => a - b,
+    );
+    for (const size of steps) {
+      console.log(`Inserting up to ${size} files...`);
+      await insertFiles(project.id, inserted, size);
+      inserted = Math.max(inserted, size);
+      results.push(await benchmark(project.id, inserted));
+    }
+    console.table(results);
+  } finally {
+    // Chunks are removed with their files
+    await db.sourceCodeEmbedding.deleteMany({
+      where: { projectId: project.id },
+    });
+    await db.project.delete({ where: { id: project.id } });
+  }
+};
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => void db.$disconnect());
@@ -0,0 +1,215 @@
+/**
+ * Stands in for the part of the Stripe API the billing page uses, so credit
+ * purchases can be tried end to end without a Stripe account:
+ *
+ *   bun run mock:payments
+ *   STRIPE_API_URL="http://localhost:12111" STRIPE_SECRET_KEY="sk_test_mock"
+ *   STRIPE_WEBHOOK_SECRET="whsec_mock"
+ *
+ * Checkouts are kept in memory. Their payment page has buttons to pay or
+ * cancel, which redirect back to the app like Stripe's hosted page does.
+ * Paying also sends a signed checkout.session.completed event to the app's
+ * webhook, set WEBHOOK_URL and WEBHOOK_SECRET if the app runs elsewhere.
+ */
+import { createHmac, randomBytes } from "crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+
+const PORT = Number(process.env.PORT ?? 12111);
+const BASE_URL = `http://localhost:${PORT}`;
+const WEBHOOK_URL =
+  process.env.WEBHOOK_URL ?? "http://localhost:3000/api/webhooks/stripe";
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET ?? "whsec_mock";
+
+type Session = {
+  id: string;
+  object: "checkout.session";
+  url: string | null;
+  status: "open" | "complete" | "expired";
+  payment_status: "paid" | "unpaid";
+  amount_total: number;
+  currency: string;
+  client_reference_id: string | null;
+  metadata: Record<string, string>;
+  success_url: string;
+  cancel_url: string;
+};
+
+const sessions = new Map<string, Session>();
+
+const readBody = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return new URLSearchParams(Buffer.concat(chunks).toString("utf8"));
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, message: string) => {
+  sendJson(res, status, { error: { type: "invalid_request_error", message } });
+};
+
+const redirect = (res: ServerResponse, location: string) => {
+  res.writeHead(303, { Location: location });
+  res.end();
+};
+
+const escapeHtml = (text: string) => {
+  return text.replace(/[&<>"]/g, (char) => `&#${char.charCodeAt(0)};`);
+};
+
+const createSession = (form: URLSearchParams): Session => {
+  const id = `cs_test_${randomBytes(12).toString("hex")}`;
+  const metadata: Record<string, string> = {};
+  for (const [key, value] of form) {
+    const match = /^metadata\[(.+)\]$/.exec(key);
+    if (match) {
+      metadata[match[1]!] = value;
+    }
+  }
+  const quantity = Number(form.get("line_items[0][quantity]") ?? 1);
+  const unitAmount = Number(
+    form.get("line_items[0][price_data][unit_amount]") ?? 0,
+  );
+  return {
+    id,
+    object: "checkout.session",
+    url: `${BASE_URL}/pay/${id}`,
+    status: "open",
+    payment_status: "unpaid",
+    amount_total: quantity * unitAmount,
+    currency: form.get("line_items[0][price_data][currency]") ?? "usd",
+    client_reference_id: form.get("client_reference_id"),
+    metadata,
+    success_url: form.get("success_url") ?? "",
+    cancel_url: form.get("cancel_url") ?? "",
+  };
+};
+
+// Signed the way Stripe signs its events, see verifyWebhook in stripe.ts
+const sendWebhook = async (type: string, session: Session) => {
+  const payload = JSON.stringify({
+    id: `evt_${randomBytes(12).toString("hex")}`,
+    object: "event",
+    type,
+    data: { object: session },
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = createHmac("sha256", WEBHOOK_SECRET)
+    .update(`${timestamp}.${payload}`)
+    .digest("hex");
+  try {
+    const response = await fetch(WEBHOOK_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Stripe-Signature": `t=${timestamp},v1=${signature}`,
+      },
+      body: payload,
+    });
+    console.log(`Sent ${type} for ${session.id}: ${response.status}`);
+  } catch (error) {
+    console.error(`Failed to send ${type} for ${session.id}:`, error);
+  }
+};
+
+const renderPaymentPage = (session: Session) => {
+  const amount = (session.amount_total / 100).toFixed(2);
+  return `<!doctype html>
+<html>
+  <body style="font-family: sans-serif; max-width: 24rem; margin: 4rem auto">
+    <h1>Mock checkout</h1>
+    <p>${escapeHtml(session.metadata.credits ?? "0")} credits for ${amount} ${escapeHtml(session.currency.toUpperCase())}</p>
+    <form method="post" action="/pay/${session.id}">
+      <button type="submit">Pay</button>
+    </form>
+    <form method="post" action="/pay/${session.id}/cancel">
+      <button type="submit">Cancel</button>
+    </form>
+  </body>
+</html>`;
+};
+
+const handleApi = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  path: string,
+) => {
+  if (!req.headers.authorization?.startsWith("Bearer sk_")) {
+    return sendError(res, 401, "Invalid API key provided");
+  }
+  if (req.method === "POST" && path === "/v1/checkout/sessions") {
+    const form = await readBody(req);
+    if (!form.get("success_url") || !form.get("cancel_url")) {
+      return sendError(res, 400, "Missing success_url or cancel_url");
+    }
+    const session = createSession(form);
+    sessions.set(session.id, session);
+    console.log(`Created checkout ${session.id}`);
+    return sendJson(res, 200, session);
+  }
+
+  const match = /^\/v1\/checkout\/sessions\/([\w-]+)$/.exec(path);
+  if (req.method === "GET" && match) {
+    const session = sessions.get(match[1]!);
+    return session
+      ? sendJson(res, 200, session)
+      : sendError(res, 404, `No such checkout.session: '${match[1]}'`);
+  }
+  sendError(res, 404, `Unrecognized request URL (${req.method}: ${path})`);
+};
+
+const handlePaymentPage = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  path: string,
+) => {
+  const match = /^\/pay\/([\w-]+)(\/cancel)?$/.exec(path);
+  const session = match && sessions.get(match[1]!);
+  if (!session) {
+    res.writeHead(404);
+    return res.end("Checkout not found");
+  }
+  if (session.status !== "open") {
+    res.writeHead(410);
+    return res.end(`Checkout is ${session.status}`);
+  }
+
+  if (req.method === "GET" && !match[2]) {
+    res.writeHead(200, { "Content-Type": "text/html" });
+    return res.end(renderPaymentPage(session));
+  }
+  if (req.method === "POST") {
+    session.url = null;
+    if (match[2]) {
+      session.status = "expired";
+      console.log(`Cancelled checkout ${session.id}`);
+      return redirect(res, session.cancel_url);
+    }
+    session.status = "complete";
+    session.payment_status = "paid";
+    console.log(`Paid checkout ${session.id}`);
+    void sendWebhook("checkout.session.completed", session);
+    return redirect(
+      res,
+      session.success_url.replace("{CHECKOUT_SESSION_ID}", session.id),
+    );
+  }
+  res.writeHead(405);
+  res.end();
+};
+
+createServer((req, res) => {
+  const path = new URL(req.url ?? "/", BASE_URL).pathname;
+  const handler = path.startsWith("/v1/") ? handleApi : handlePaymentPage;
+  Promise.resolve(handler(req, res, path)).catch((error) => {
+    console.error(error);
+    sendError(res, 500, "Mock payment server error");
+  });
+}).listen(PORT, () => {
+  console.log(`Mock payment server listening on ${BASE_URL}`);
+});
@@ -0,0 +1,161 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import useProject from "@/hooks/use-project";
+import { api } from "@/trpc/react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+type FormInput = {
+  budget: number;
+  allProjects: boolean;
+};
+
+const AdminPage = () => {
+  const { project } = useProject();
+  const { register, handleSubmit, setValue, watch } = useForm<FormInput>({
+    defaultValues: { budget: 100, allProjects: false },
+  });
+  const allProjects = watch("allProjects") || !project;
+  const scopeProjectId = allProjects ? undefined : project?.id;
+
+  const { data: isAdmin, isLoading } = api.admin.isAdmin.useQuery();
+  const { data: outdated } = api.admin.getOutdatedSummaries.useQuery(
+    { projectId: scopeProjectId },
+    { enabled: !!isAdmin },
+  );
+  const { data: jobs } = api.admin.getSummaryRegenerationJobs.useQuery(
+    undefined,
+    {
+      enabled: !!isAdmin,
+      // Keep the progress moving while a run is going
+      refetchInterval: (query) =>
+        query.state.data?.some((job) => job.status === "RUNNING")
+          ? 3000
+          : false,
+    },
+  );
+  const startRegeneration = api.admin.startSummaryRegeneration.useMutation();
+  const utils = api.useUtils();
+
+  if (isLoading) {
+    return null;
+  }
+  if (!isAdmin) {
+    return <div>Only admins can see this page</div>;
+  }
+
+  function onSubmit(data: FormInput) {
+    startRegeneration.mutate(
+      { budget: Number(data.budget), projectId: scopeProjectId },
+      {
+        onSuccess: () => {
+          toast.success("Regeneration started");
+          void utils.admin.invalidate();
+        },
+        onError: (error) => {
+          toast.error(error.message || "Failed to start the regeneration");
+        },
+      },
+    );
+  }
+
+  return (
+    <div>
+      <h1 className="text-2xl font-semibold">Admin</h1>
+      <p className="text-sm text-muted-foreground">
+        Regenerate commit and file summaries written with an older prompt
+        version
+      </p>
+      <div className="h-4"></div>
+      <p className="text-sm">
+        {outdated
+          ? `${outdated.commits} commit and ${outdated.files} file summaries are outdated in ${allProjects ? "all projects" : project?.name}`
+          : "Counting outdated summaries..."}
+      </p>
+      <div className="h-4"></div>
+      <form
+        onSubmit={handleSubmit(onSubmit)}
+        className="flex flex-wrap items-center gap-4"
+      >
+        <label className="flex items-center gap-2 text-sm">
+          Budget
+          <Input
+            type="number"
+            min={1}
+            max={10000}
+            className="w-28"
+            {...register("budget", { required: true, min: 1, max: 10000 })}
+          />
+          summaries
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={allProjects}
+            disabled={!project}
+            onCheckedChange={(checked) =>
+              setValue("allProjects", checked === true)
+            }
+          />
+          All projects
+        </label>
+        <Button type="submit" disabled={startRegeneration.isPending}>
+          Regenerate
+        </Button>
+      </form>
+
+      <div className="h-8"></div>
+      <h2 className="text-lg font-semibold">Recent runs</h2>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Started</TableHead>
+            <TableHead>Scope</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Commits</TableHead>
+            <TableHead className="text-right">Files</TableHead>
+            <TableHead className="text-right">Failed</TableHead>
+            <TableHead className="text-right">Budget</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {jobs?.map((job) => (
+            <TableRow key={job.id}>
+              <TableCell>{job.createdAt.toLocaleString()}</TableCell>
+              <TableCell>{job.project?.name ?? "All projects"}</TableCell>
+              <TableCell>
+                <Badge
+                  variant={job.status === "FAILED" ? "destructive" : "outline"}
+                  title={job.error ?? undefined}
+                >
+                  {job.status.toLowerCase()}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-right">
+                {job.commitsRegenerated}
+              </TableCell>
+              <TableCell className="text-right">
+                {job.filesRegenerated}
+              </TableCell>
+              <TableCell className="text-right">{job.failed}</TableCell>
+              <TableCell className="text-right">{job.budget}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default AdminPage;
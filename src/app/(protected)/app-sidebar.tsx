@@ -17,10 +17,13 @@ import useProject from "@/hooks/use-project";
 import { cn } from "@/lib/utils";
 import {
   Bot,
+  Braces,
   CreditCard,
   LayoutDashboard,
+  Network,
   Plus,
   Presentation,
+  Settings,
 } from "lucide-react";
 import Image from "next/image";
 import Link from "next/link";
@@ -37,6 +40,16 @@ const items = [
     url: "/qa",
     icon: Bot,
   },
+  {
+    title: "Symbols",
+    url: "/symbols",
+    icon: Braces,
+  },
+  {
+    title: "Dependencies",
+    url: "/graph",
+    icon: Network,
+  },
   {
     title: "Meetings",
     url: "/meetings",
@@ -47,6 +60,11 @@ const items = [
     url: "/billing",
     icon: CreditCard,
   },
+  {
+    title: "Settings",
+    url: "/settings",
+    icon: Settings,
+  },
 ];
 
 export function AppSideBar() {
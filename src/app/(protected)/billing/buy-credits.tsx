@@ -0,0 +1,94 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { api } from "@/trpc/react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useEffect, useRef } from "react";
+import { toast } from "sonner";
+
+type CreditPack = { id: string; credits: number; priceCents: number };
+
+const formatPrice = (cents: number) => {
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency: "USD",
+  }).format(cents / 100);
+};
+
+const BuyCredits = ({ packs }: { packs: readonly CreditPack[] }) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const utils = api.useUtils();
+  const createCheckout = api.billing.createCheckout.useMutation();
+  const confirmCheckout = api.billing.confirmCheckout.useMutation();
+
+  // The payment page redirects back here with the checkout to confirm
+  const checkoutId = searchParams.get("checkout");
+  const confirmed = useRef<string | null>(null);
+  useEffect(() => {
+    if (!checkoutId || confirmed.current === checkoutId) {
+      return;
+    }
+    confirmed.current = checkoutId;
+    confirmCheckout.mutate(
+      { checkoutId },
+      {
+        onSuccess: (result) => {
+          if (result.status === "paid") {
+            toast.success(`Added ${result.credits} credits`);
+          } else if (result.status === "unpaid") {
+            toast.error("The payment hasn't gone through yet");
+          }
+          void utils.billing.invalidate();
+        },
+        onError: (error) => {
+          toast.error(error.message || "Failed to confirm the payment");
+        },
+        onSettled: () => router.replace(pathname),
+      },
+    );
+  }, [checkoutId, confirmCheckout, pathname, router, utils]);
+
+  function onBuy(packId: string) {
+    createCheckout.mutate(
+      { packId },
+      {
+        onSuccess: ({ url }) => {
+          if (url) {
+            window.location.href = url;
+          }
+        },
+        onError: (error) => {
+          toast.error(error.message || "Failed to start the checkout");
+        },
+      },
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-4">
+      {packs.map((pack) => (
+        <div
+          key={pack.id}
+          className="flex w-48 flex-col gap-2 rounded-md border p-4"
+        >
+          <span className="text-lg font-semibold">
+            {pack.credits.toLocaleString()} credits
+          </span>
+          <span className="text-sm text-muted-foreground">
+            {formatPrice(pack.priceCents)}
+          </span>
+          <Button
+            onClick={() => onBuy(pack.id)}
+            disabled={createCheckout.isPending || confirmCheckout.isPending}
+          >
+            Buy
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BuyCredits;
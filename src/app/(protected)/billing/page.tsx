@@ -0,0 +1,63 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { api } from "@/trpc/react";
+import { Suspense } from "react";
+import BuyCredits from "./buy-credits";
+import TransactionHistory from "./transaction-history";
+import UsageChart from "./usage-chart";
+
+const BillingPage = () => {
+  const { data: balance } = api.billing.getBalance.useQuery();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Billing</h1>
+        {balance && (
+          <p className="text-sm text-muted-foreground">
+            Indexing costs {balance.costs.file} credits per file, summaries{" "}
+            {balance.costs.commit} per commit and answers{" "}
+            {balance.costs.question} per question. Failed work is refunded.
+          </p>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Balance</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-3xl font-bold">
+            {balance?.credits.toLocaleString() ?? "-"} credits
+          </p>
+          {balance?.canPurchase && (
+            <Suspense>
+              <BuyCredits packs={balance.packs} />
+            </Suspense>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Usage over the last 30 days</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <UsageChart />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Transactions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <TransactionHistory />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BillingPage;
@@ -0,0 +1,155 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import useProject from "@/hooks/use-project";
+import { cn } from "@/lib/utils";
+import { api } from "@/trpc/react";
+import {
+  type CreditOperation,
+  type CreditTransactionType,
+} from "@prisma/client";
+import { useState } from "react";
+
+const TYPES: { value: CreditTransactionType | "ALL"; label: string }[] = [
+  { value: "ALL", label: "All types" },
+  { value: "GRANT", label: "Grants" },
+  { value: "PURCHASE", label: "Purchases" },
+  { value: "SPEND", label: "Spending" },
+  { value: "REFUND", label: "Refunds" },
+];
+
+const OPERATION_LABELS: Record<CreditOperation, string> = {
+  INDEXING: "Indexing",
+  COMMIT_SUMMARY: "Commit summary",
+  QUESTION: "Question",
+};
+
+const TransactionHistory = () => {
+  const { projects } = useProject();
+  const [type, setType] = useState<CreditTransactionType | "ALL">("ALL");
+  const [projectId, setProjectId] = useState("ALL");
+
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    api.billing.getTransactions.useInfiniteQuery(
+      {
+        type: type === "ALL" ? undefined : type,
+        projectId: projectId === "ALL" ? undefined : projectId,
+      },
+      { getNextPageParam: (lastPage) => lastPage.nextCursor },
+    );
+  const transactions = data?.pages.flatMap((page) => page.items) ?? [];
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-4">
+        <Select
+          value={type}
+          onValueChange={(value) => setType(value as typeof type)}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TYPES.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={projectId} onValueChange={setProjectId}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="ALL">All projects</SelectItem>
+            {projects?.map((project) => (
+              <SelectItem key={project.id} value={project.id}>
+                {project.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="h-4"></div>
+      {data && transactions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No transactions yet</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Details</TableHead>
+              <TableHead>Project</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead className="text-right">Balance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {transactions.map((transaction) => (
+              <TableRow key={transaction.id}>
+                <TableCell className="whitespace-nowrap">
+                  {transaction.createdAt.toLocaleString()}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline">
+                    {transaction.type.toLowerCase()}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  {transaction.operation &&
+                    OPERATION_LABELS[transaction.operation]}
+                  {transaction.operation && transaction.description && ": "}
+                  {transaction.description}
+                </TableCell>
+                <TableCell>{transaction.project?.name ?? "-"}</TableCell>
+                <TableCell
+                  className={cn(
+                    "text-right font-medium",
+                    transaction.amount > 0 && "text-green-600",
+                  )}
+                >
+                  {transaction.amount > 0 ? "+" : ""}
+                  {transaction.amount}
+                </TableCell>
+                <TableCell className="text-right">
+                  {transaction.balanceAfter}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+      {hasNextPage && (
+        <Button
+          variant="outline"
+          className="mt-4"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+        >
+          Load more
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default TransactionHistory;
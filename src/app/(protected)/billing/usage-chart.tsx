@@ -0,0 +1,62 @@
+"use client";
+
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { api } from "@/trpc/react";
+import { Bar, BarChart, CartesianGrid, XAxis } from "recharts";
+
+const USAGE_DAYS = 30;
+
+const chartConfig = {
+  INDEXING: { label: "Indexing", color: "hsl(var(--chart-1))" },
+  COMMIT_SUMMARY: { label: "Commit summaries", color: "hsl(var(--chart-2))" },
+  QUESTION: { label: "Questions", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+const formatDay = (date: string) => {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+};
+
+const UsageChart = () => {
+  const { data: usage } = api.billing.getUsage.useQuery({ days: USAGE_DAYS });
+
+  return (
+    <ChartContainer config={chartConfig} className="max-h-72 w-full">
+      <BarChart data={usage ?? []}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="date"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={24}
+          tickFormatter={formatDay}
+        />
+        <ChartTooltip
+          content={<ChartTooltipContent labelFormatter={formatDay} />}
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {Object.keys(chartConfig).map((operation) => (
+          <Bar
+            key={operation}
+            dataKey={operation}
+            stackId="usage"
+            fill={`var(--color-${operation})`}
+          />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+export default UsageChart;
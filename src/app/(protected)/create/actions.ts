@@ -0,0 +1,82 @@
+"use server";
+
+import {
+  extractArchive,
+  isSupportedArchive,
+  MAX_ARCHIVE_BYTES,
+  storeArchive,
+} from "@/lib/archives";
+import { CREDITS_PER_FILE, getCredits } from "@/lib/credits";
+import { enqueueIndexingJob } from "@/lib/indexing-jobs";
+import { db } from "@/server/db";
+import { auth } from "@clerk/nextjs/server";
+
+type CreateArchiveProjectResult =
+  | { projectId: string; jobId: string }
+  | { error: string };
+
+/**
+ * Creates a project from an uploaded .zip or .tar.gz. tRPC can't take file
+ * uploads, so this runs as a server action with a raised body size limit.
+ */
+export async function createArchiveProject(
+  formData: FormData,
+): Promise<CreateArchiveProjectResult> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "You must be logged in to create a project" };
+  }
+
+  const name = formData.get("name");
+  const archive = formData.get("archive");
+  if (typeof name !== "string" || !name.trim()) {
+    return { error: "Project name is required" };
+  }
+  if (!(archive instanceof File) || !isSupportedArchive(archive.name)) {
+    return { error: "Upload a .zip, .tar.gz or .tgz file" };
+  }
+  if (archive.size > MAX_ARCHIVE_BYTES) {
+    return { error: "Archive is larger than 50MB" };
+  }
+
+  let files: Map<string, Uint8Array>;
+  try {
+    files = extractArchive(
+      archive.name,
+      new Uint8Array(await archive.arrayBuffer()),
+    );
+  } catch (error) {
+    console.error("Failed to extract archive:", error);
+    return {
+      error:
+        error instanceof Error
+          ? `Could not read the archive: ${error.message}`
+          : "Could not read the archive",
+    };
+  }
+
+  // Upper bound, ignore rules may still drop some of the files
+  const required = files.size * CREDITS_PER_FILE;
+  const available = await getCredits(userId);
+  if (available < required) {
+    return {
+      error: `Indexing ${files.size} files needs ${required} credits, but you only have ${available} left`,
+    };
+  }
+
+  const storageKey = await storeArchive(files);
+  const project = await db.project.create({
+    data: {
+      name: name.trim(),
+      repoUrl: storageKey,
+      provider: "ARCHIVE",
+      UserToProject: {
+        create: {
+          userId,
+        },
+      },
+    },
+  });
+  const job = await enqueueIndexingJob(project.id, userId);
+  return { projectId: project.id, jobId: job.id };
+}
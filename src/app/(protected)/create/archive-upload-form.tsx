@@ -0,0 +1,73 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import useRefetch from "@/hooks/use-refetch";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { createArchiveProject } from "./actions";
+
+type FormInput = {
+  projectName: string;
+  archive: FileList;
+};
+
+const ArchiveUploadForm = () => {
+  const { register, handleSubmit, reset } = useForm<FormInput>();
+  const [isUploading, setIsUploading] = useState(false);
+  const refetch = useRefetch();
+
+  async function onSubmit(data: FormInput) {
+    const archive = data.archive[0];
+    if (!archive) {
+      return;
+    }
+
+    const formData = new FormData();
+    formData.set("name", data.projectName);
+    formData.set("archive", archive);
+
+    setIsUploading(true);
+    try {
+      const result = await createArchiveProject(formData);
+      if ("error" in result) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success("Project created, indexing has started");
+      reset();
+      void refetch();
+    } catch (error) {
+      console.error("Archive upload failed:", error);
+      toast.error("Failed to upload archive");
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      <Input
+        {...register("projectName", { required: true })}
+        placeholder="Project Name"
+      />
+      <div className="h-2"></div>
+      <Input
+        {...register("archive", { required: true })}
+        type="file"
+        accept=".zip,.tar.gz,.tgz"
+      />
+      <p className="mt-1 text-xs text-muted-foreground">
+        .zip, .tar.gz or .tgz up to 50MB. Archive projects have no commit
+        history.
+      </p>
+      <div className="h-4"></div>
+      <Button type="submit" disabled={isUploading}>
+        {isUploading ? "Uploading..." : "Create Project"}
+      </Button>
+    </form>
+  );
+};
+
+export default ArchiveUploadForm;
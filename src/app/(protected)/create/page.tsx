@@ -2,35 +2,101 @@
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import useRefetch from "@/hooks/use-refetch";
 import { api } from "@/trpc/react";
-import { useForm } from "react-hook-form";
+import { type RepoProvider } from "@prisma/client";
+import { useState } from "react";
+import { Controller, useForm } from "react-hook-form";
 import { toast } from "sonner";
+import ArchiveUploadForm from "./archive-upload-form";
+import RepositoryCheck, {
+  type RepositoryCheckResult,
+} from "./repository-check";
+
+const PROVIDERS: { value: RepoProvider | "AUTO"; label: string }[] = [
+  { value: "AUTO", label: "Detect from URL" },
+  { value: "GITHUB", label: "GitHub" },
+  { value: "GITLAB", label: "GitLab" },
+  { value: "BITBUCKET", label: "Bitbucket" },
+  { value: "GITEA", label: "Gitea / Forgejo" },
+  { value: "GIT", label: "Plain git" },
+];
 
 type FormInput = {
   repoUrl: string;
   projectName: string;
-  githubToken?: string;
+  provider: RepoProvider | "AUTO";
+  accessToken?: string;
+  branch?: string;
 };
+// The check only holds for the repository fields it was run with
+const getRepository = (data: FormInput) => ({
+  repoUrl: data.repoUrl,
+  provider: data.provider === "AUTO" ? undefined : data.provider,
+  accessToken: data.accessToken,
+  branch: data.branch,
+});
+
 const CreatePage = () => {
-  const { register, handleSubmit, reset } = useForm<FormInput>();
+  const { register, handleSubmit, control, getValues, watch } =
+    useForm<FormInput>({
+      defaultValues: { provider: "AUTO" },
+    });
+  const checkRepository = api.project.checkRepository.useMutation();
   const createProject = api.project.createProject.useMutation();
   const refetch = useRefetch();
+  const [check, setCheck] = useState<{
+    key: string;
+    result: RepositoryCheckResult;
+  } | null>(null);
+  const [confirmed, setConfirmed] = useState(false);
+
+  const repositoryKey = JSON.stringify(getRepository(watch()));
+  const checkResult = check?.key === repositoryKey ? check.result : null;
+  const canCreate =
+    !!checkResult && confirmed && checkResult.balance >= checkResult.credits;
+
+  function onCheck() {
+    const repository = getRepository(getValues());
+    if (!repository.repoUrl.trim()) {
+      toast.error("Enter a repository URL first");
+      return;
+    }
+    checkRepository.mutate(repository, {
+      onSuccess: (result) => {
+        setCheck({ key: JSON.stringify(repository), result });
+        setConfirmed(false);
+      },
+      onError: (error) => {
+        toast.error(error.message || "Failed to check the repository");
+      },
+    });
+  }
 
   function onSubmit(data: FormInput) {
+    if (!canCreate) {
+      return;
+    }
     createProject.mutate(
       {
-        githubUrl: data.repoUrl,
+        ...getRepository(data),
         name: data.projectName,
-        githubToken: data.githubToken,
       },
       {
         onSuccess: () => {
-          toast.success("Project created successfully");
+          toast.success("Project created, indexing has started");
           refetch();
         },
-        onError: () => {
-          toast.error("Failed to create project");
+        onError: (error) => {
+          toast.error(error.message || "Failed to create project");
         },
       },
     );
@@ -42,37 +108,91 @@ const CreatePage = () => {
       <img src="/coding.svg" className="h-56 w-auto" />
       <div>
         <div>
-          <h1 className="text-2xl font-semibold">
-            Link Your GitHub Repository
-          </h1>
-          <p className="text-muted-foreground text-sm">
-            Enter the URL of your repository to link it to Codojo
+          <h1 className="text-2xl font-semibold">Link Your Repository</h1>
+          <p className="text-sm text-muted-foreground">
+            Enter the URL or server path of your repository, or upload an
+            archive of it, to link it to Codojo
           </p>
         </div>
         <div className="h-4"></div>
-        <div>
-          <form onSubmit={handleSubmit(onSubmit)}>
-            <Input
-              {...register("projectName", { required: true })}
-              placeholder="Project Name"
-            />
-            <div className="h-2"></div>
-            <Input
-              {...register("repoUrl", { required: true })}
-              placeholder="GitHub URL"
-              type="url"
-            />
-            <div className="h-2"></div>
-            <Input
-              {...register("githubToken")}
-              placeholder="GitHub Token (Optional)"
-            />
-            <div className="h-4"></div>
-            <Button type="submit" disabled={createProject.isPending}>
-              Create Project
-            </Button>
-          </form>
-        </div>
+        <Tabs defaultValue="repository">
+          <TabsList>
+            <TabsTrigger value="repository">Repository</TabsTrigger>
+            <TabsTrigger value="archive">Upload Archive</TabsTrigger>
+          </TabsList>
+          <TabsContent value="repository">
+            <form onSubmit={handleSubmit(onSubmit)}>
+              <Input
+                {...register("projectName", { required: true })}
+                placeholder="Project Name"
+              />
+              <div className="h-2"></div>
+              <Input
+                {...register("repoUrl", { required: true })}
+                placeholder="Repository URL, git URL or local path"
+              />
+              <div className="h-2"></div>
+              <Controller
+                control={control}
+                name="provider"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Provider" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROVIDERS.map((provider) => (
+                        <SelectItem key={provider.value} value={provider.value}>
+                          {provider.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              <div className="h-2"></div>
+              <Input
+                {...register("accessToken")}
+                placeholder="Access Token (Optional)"
+              />
+              <div className="h-2"></div>
+              <Input
+                {...register("branch")}
+                placeholder="Branch (Optional, defaults to the default branch)"
+              />
+              <div className="h-4"></div>
+              {checkResult && (
+                <>
+                  <RepositoryCheck
+                    result={checkResult}
+                    confirmed={confirmed}
+                    onConfirmedChange={setConfirmed}
+                  />
+                  <div className="h-4"></div>
+                </>
+              )}
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={onCheck}
+                  disabled={checkRepository.isPending}
+                >
+                  {checkRepository.isPending ? "Checking..." : "Check"}
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={!canCreate || createProject.isPending}
+                >
+                  Create Project
+                </Button>
+              </div>
+            </form>
+          </TabsContent>
+          <TabsContent value="archive">
+            <ArchiveUploadForm />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
@@ -0,0 +1,86 @@
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { type RouterOutputs } from "@/trpc/react";
+import Link from "next/link";
+
+export type RepositoryCheckResult = RouterOutputs["project"]["checkRepository"];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const formatDuration = (seconds: number) => {
+  if (seconds < 60) {
+    return "under a minute";
+  }
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60
+    ? `about ${minutes} minute${minutes === 1 ? "" : "s"}`
+    : `about ${(minutes / 60).toFixed(1)} hours`;
+};
+
+const RepositoryCheck = ({
+  result,
+  confirmed,
+  onConfirmedChange,
+}: {
+  result: RepositoryCheckResult;
+  confirmed: boolean;
+  onConfirmedChange: (confirmed: boolean) => void;
+}) => {
+  const canAfford = result.balance >= result.credits;
+
+  return (
+    <div className="space-y-2 rounded-md border p-4 text-sm">
+      <p>
+        <span className="font-medium">{result.fileCount}</span> files on{" "}
+        <span className="font-mono">{result.branch}</span>,{" "}
+        {result.sizeKnown ? "" : "at least "}
+        {formatBytes(result.totalBytes)}
+      </p>
+      <p>
+        Costs <span className="font-medium">{result.credits}</span> credits (you
+        have {result.balance}) and takes{" "}
+        {formatDuration(result.estimatedSeconds)} to index
+      </p>
+      <ScrollArea className="h-40 rounded-md bg-muted p-2">
+        {result.files.map((file) => (
+          <div key={file.path} className="break-all font-mono text-xs">
+            {file.path}
+          </div>
+        ))}
+        {result.truncated && (
+          <div className="text-xs text-muted-foreground">
+            and {result.fileCount - result.files.length} more
+          </div>
+        )}
+      </ScrollArea>
+      {canAfford ? (
+        <label className="flex items-center gap-2">
+          <Checkbox
+            checked={confirmed}
+            onCheckedChange={(checked) => onConfirmedChange(checked === true)}
+          />
+          Use {result.credits} credits to index this repository
+        </label>
+      ) : (
+        <p className="text-destructive">
+          You need {result.credits - result.balance} more credits.{" "}
+          <Link href="/billing" className="underline">
+            Buy credits
+          </Link>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RepositoryCheck;
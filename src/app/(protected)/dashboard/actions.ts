@@ -1,50 +1,73 @@
 "use server";
 
-import { generateEmbedding } from "@/lib/gemini";
-import { db } from "@/server/db";
+import { buildAnswerContext } from "@/lib/answer-context";
+import {
+  conversationTitle,
+  type ConversationTurn,
+  formatHistory,
+  getEarlierFiles,
+  rewriteQuestion,
+} from "@/lib/conversation";
+import {
+  CREDITS_PER_QUESTION,
+  deductCredits,
+  InsufficientCreditsError,
+  refundCredits,
+} from "@/lib/credits";
+import { getDependencyNeighbours } from "@/lib/dependencies";
+import { generateEmbedding } from "@/lib/embedding-providers";
+import { getTaskModel, streamText } from "@/lib/llm-providers";
+import { rerankResults } from "@/lib/rerank";
 import {
-  GoogleGenerativeAI,
-  type GenerativeModel,
-} from "@google/generative-ai";
+  getFilesByName,
+  searchCodebase,
+  type SourceCodeResult,
+} from "@/lib/search";
+import { db } from "@/server/db";
+import { auth } from "@clerk/nextjs/server";
 import { createStreamableValue, type StreamableValue } from "ai/rsc";
 
 // Types
-interface SourceCodeResult {
-  fileName: string;
-  sourceCode: string;
-  summary: string;
-  similarity?: number;
-}
-
 interface QuestionResponse {
   output: StreamableValue;
   filesReferences: SourceCodeResult[];
+  // Pass back with follow-ups to continue the conversation
+  conversationId: string;
+  indexedCommit: string | null;
 }
 
 // Constants
-const SIMILARITY_THRESHOLD = 0.5;
-const MAX_RESULTS = 10;
-const MODEL_NAME = "gemini-1.5-flash";
-
-// Initialize Google AI
-const googleAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-
-/**
- * Formats the context from source code results
- */
-function formatContext(results: SourceCodeResult[]): string {
-  return results
-    .map(
-      (doc) =>
-        `source: ${doc.fileName}\ncode content: ${doc.sourceCode}\nsummary of file: ${doc.summary}\n\n`,
-    )
-    .join("");
-}
+// Direct imports of the best few files are added to the context as summaries
+const NEIGHBOUR_SOURCE_FILES = 3;
+const MAX_NEIGHBOUR_FILES = 5;
 
 /**
  * Generates the prompt for the AI model
  */
-function generatePrompt(context: string, question: string): string {
+function generatePrompt(
+  context: string,
+  omissions: string[],
+  question: string,
+  history: string,
+): string {
+  // Said outright so the model doesn't take missing code as absent code
+  const omitted =
+    omissions.length > 0
+      ? `
+    START OMITTED CONTEXT
+    The context was cut to fit. These parts of the relevant files were left out:
+    ${omissions.map((omission) => `- ${omission}`).join("\n    ")}
+    END OMITTED CONTEXT
+`
+      : "";
+  const conversation = history
+    ? `
+    START CONVERSATION HISTORY
+    The question follows up on this conversation, with earlier answers shortened:
+    ${history}
+    END CONVERSATION HISTORY
+`
+    : "";
   return `
     You are an AI code assistant who answers questions about the codebase. Your target audience is a technical intern.
     You are a powerful, human-like artificial intelligence with expert knowledge in coding.
@@ -52,10 +75,12 @@ function generatePrompt(context: string, question: string): string {
 
     When answering questions about code or specific files, provide detailed, step-by-step instructions.
 
+    Code lines in the context start with their line number.
+
     START CONTEXT BLOCK
     ${context}
     END CONTEXT BLOCK
-
+${omitted}${conversation}
     START QUESTION
     ${question}
     END OF QUESTION
@@ -64,95 +89,174 @@ function generatePrompt(context: string, question: string): string {
     - Only use information from the provided context
     - If the context doesn't contain the answer, respond with "I apologize, but I don't have enough information to answer this question"
     - Do not invent or assume information not present in the context
+    - If the answer may depend on context that was left out, say which files to check
     - Use markdown syntax, including code snippets where appropriate
+    - Cite the code your answer is based on with its file and line numbers in square brackets, like [src/lib/utils.ts:12-20] or [src/lib/utils.ts:12]
     - Provide detailed answers that leave no room for ambiguity
     `;
 }
 
 /**
- * Performs vector similarity search on the source code database
+ * Main function to handle questions about the codebase. Without a
+ * conversationId the question starts a new conversation.
  */
-async function performVectorSearch(
-  queryVector: number[],
+export async function askQuestion(
+  question: string,
   projectId: string,
-): Promise<SourceCodeResult[]> {
-  const vectorQuery = `[${queryVector.join(",")}]`;
+  conversationId?: string,
+): Promise<QuestionResponse | { error: string }> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "You must be logged in to ask a question" };
+  }
+  const project = await db.project.findFirst({
+    where: {
+      id: projectId,
+      deletedAt: null,
+      UserToProject: { some: { userId } },
+    },
+    select: { id: true, indexedCommit: true },
+  });
+  if (!project) {
+    return { error: "Project not found" };
+  }
+  const { indexedCommit } = project;
 
-  try {
-    return (await db.$queryRaw`
-      SELECT
-        "fileName",
-        "sourceCode",
-        "summary",
-        1 - ("summaryEmbedding" <==> ${vectorQuery}::vector) AS similarity
-      FROM "SourceCodeEmbedding"
-      WHERE
-        1 - ("summaryEmbedding" <==> ${vectorQuery}::vector) > ${SIMILARITY_THRESHOLD}
-        AND "projectId" = ${projectId}
-      ORDER BY similarity DESC
-      LIMIT ${MAX_RESULTS};
-    `) as SourceCodeResult[];
-  } catch (error) {
-    console.error("Vector search failed:", error);
-    throw new Error("Failed to search codebase");
+  let turns: ConversationTurn[] = [];
+  if (conversationId) {
+    const conversation = await db.conversation.findFirst({
+      where: { id: conversationId, projectId, userId },
+      select: {
+        Question: {
+          orderBy: { createdAt: "asc" },
+          select: {
+            question: true,
+            answer: true,
+            filesReferences: true,
+            indexedCommit: true,
+          },
+        },
+      },
+    });
+    if (!conversation) {
+      return { error: "Conversation not found" };
+    }
+    turns = conversation.Question.map((turn) => ({
+      ...turn,
+      filesReferences: (turn.filesReferences ?? []) as SourceCodeResult[],
+    }));
   }
-}
 
-/**
- * Streams text from the AI model
- */
-async function streamText({
-  model,
-  prompt,
-}: {
-  model: GenerativeModel;
-  prompt: string;
-}) {
+  // Paid up front, and given back if no answer could be generated
+  const usage = { operation: "QUESTION" as const, projectId };
   try {
-    const result = await model.generateContentStream(prompt);
-    return {
-      textStream: result.stream,
-    };
+    await deductCredits(userId, CREDITS_PER_QUESTION, usage);
   } catch (error) {
-    console.error("Text streaming failed:", error);
-    throw new Error("Failed to generate response");
+    if (error instanceof InsufficientCreditsError) {
+      return { error: error.message };
+    }
+    throw error;
   }
-}
 
-/**
- * Main function to handle questions about the codebase
- */
-export async function askQuestion(
-  question: string,
-  projectId: string,
-): Promise<QuestionResponse> {
   const stream = createStreamableValue();
+  // Removed again if the first question of a new conversation fails
+  const newConversationId = conversationId
+    ? null
+    : (
+        await db.conversation.create({
+          data: { title: conversationTitle(question), projectId, userId },
+        })
+      ).id;
+  const discardNewConversation = async () => {
+    if (newConversationId) {
+      await db.conversation
+        .delete({ where: { id: newConversationId } })
+        .catch(console.error);
+    }
+  };
 
   try {
+    // Follow-ups are searched for as standalone questions
+    const searchQuestion = await rewriteQuestion(question, turns, projectId);
+
     // Generate embedding for the question
-    const queryVector = await generateEmbedding(question);
+    const queryVector = await generateEmbedding(searchQuestion);
 
-    // Perform vector search
-    const searchResults = await performVectorSearch(queryVector, projectId);
+    // Vector, full-text and symbol search, fused into one ranking. Files the
+    // conversation used before stay candidates, then the reranker picks the
+    // best by their code.
+    const retrieved = await searchCodebase(
+      searchQuestion,
+      queryVector,
+      projectId,
+    );
+    const earlierFiles = await getFilesByName(
+      projectId,
+      getEarlierFiles(turns).filter(
+        (fileName) => !retrieved.some((file) => file.fileName === fileName),
+      ),
+    );
+    const searchResults = await rerankResults(
+      searchQuestion,
+      [...retrieved, ...earlierFiles],
+      projectId,
+    );
 
-    // Format context from search results
-    const context = formatContext(searchResults);
+    // Files importing or imported by the top results
+    const neighbours = await getDependencyNeighbours(
+      projectId,
+      searchResults
+        .slice(0, NEIGHBOUR_SOURCE_FILES)
+        .map((result) => result.fileName),
+      MAX_NEIGHBOUR_FILES,
+    );
 
-    // Generate and stream response
-    const model = googleAI.getGenerativeModel({ model: MODEL_NAME });
-    const prompt = generatePrompt(context, question);
+    // Fit the best of the results into the model's token budget
+    const { context, omissions } = buildAnswerContext(
+      searchQuestion,
+      searchResults,
+      neighbours,
+    );
+
+    // Generate and stream response with the project's answer model
+    const model = await getTaskModel("answer", projectId);
+    const prompt = generatePrompt(
+      context,
+      omissions,
+      question,
+      formatHistory(turns),
+    );
 
     // Start streaming response
     (async () => {
       try {
-        const { textStream } = await streamText({ model, prompt });
-
-        for await (const delta of textStream) {
+        let answer = "";
+        for await (const delta of streamText(model, { prompt })) {
+          answer += delta;
           stream.update(delta);
         }
 
+        // Saved for the Q&A page before the stream ends, the client refetches
+        // the list as soon as it does
+        await db.question
+          .create({
+            data: {
+              question,
+              answer,
+              filesReferences: searchResults,
+              indexedCommit,
+              projectId,
+              userId,
+              conversationId: conversationId ?? newConversationId,
+            },
+          })
+          .catch((error) => console.error("Failed to save question:", error));
         stream.done();
       } catch (error) {
+        await refundCredits(userId, CREDITS_PER_QUESTION, usage).catch(
+          console.error,
+        );
+        await discardNewConversation();
         stream.error(error as Error);
       }
     })();
@@ -160,8 +264,14 @@ export async function askQuestion(
     return {
       output: stream.value,
       filesReferences: searchResults,
+      conversationId: conversationId ?? newConversationId!,
+      indexedCommit,
     };
   } catch (error) {
+    await refundCredits(userId, CREDITS_PER_QUESTION, usage).catch(
+      console.error,
+    );
+    await discardNewConversation();
     stream.error(error as Error);
     throw error;
   }
@@ -2,63 +2,44 @@
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Dialog, DialogContent, DialogHeader } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
-import useProject from "@/hooks/use-project";
-import { DialogTitle } from "@radix-ui/react-dialog";
-import { readStreamableValue } from "ai/rsc";
-import Image from "next/image";
+import useConversation from "@/hooks/use-conversation";
+import useIndexingStatus from "@/hooks/use-indexing-status";
 import React from "react";
-import { askQuestion } from "./actions";
+import ChatDialog from "./chat-dialog";
 
 const AskQuestionCard = () => {
-  const { project } = useProject();
+  const { isIndexing } = useIndexingStatus();
+  const conversation = useConversation();
   const [open, setOpen] = React.useState(false);
   const [question, setQuestion] = React.useState("");
-  const [loading, setLoading] = React.useState(false);
-  const [filesReferences, setFilesReferences] = React.useState<
-    { fileName: string; sourceCode: string; summary: string }[]
-  >([]);
-  const [answer, setAnswer] = React.useState("");
 
-  const onSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    if (!project?.id) {
-      return alert("No Project has been specified");
-    }
-    setLoading(true);
+  // Each question from the card starts a new conversation
+  const onSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
+    conversation.start();
     setOpen(true);
-
-    const { output, filesReferences } = await askQuestion(question, project.id);
-    setFilesReferences(filesReferences);
-    for await (const delta of readStreamableValue(output)) {
-      if (delta) {
-        setAnswer((ans) => ans + delta);
-      }
-    }
-    setLoading(false);
+    void conversation.ask(question);
   };
 
   return (
     <>
-      <Dialog open={open} onOpenChange={setOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>
-              <Image src="/logo.png" alt="logo" width={40} height={40} />
-            </DialogTitle>
-          </DialogHeader>
-          {answer}
-          {filesReferences.map((file) => {
-            return <span>{file.fileName}</span>;
-          })}
-        </DialogContent>
-      </Dialog>
+      <ChatDialog
+        open={open}
+        onOpenChange={setOpen}
+        conversation={conversation}
+      />
       <Card className="relative col-span-3">
         <CardHeader>
           <CardTitle>Ask a question</CardTitle>
         </CardHeader>
         <CardContent>
+          {isIndexing && (
+            <p className="mb-4 text-sm text-amber-600">
+              This project is still being indexed, so answers will be partial
+              until indexing is done.
+            </p>
+          )}
           <form onSubmit={onSubmit}>
             <Textarea
               placeholder="Which file should i edit to change the home page?"
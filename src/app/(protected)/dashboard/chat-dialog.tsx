@@ -0,0 +1,134 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import type useConversation from "@/hooks/use-conversation";
+import { DialogTitle } from "@radix-ui/react-dialog";
+import Image from "next/image";
+import React from "react";
+import CitedAnswer from "./cited-answer";
+import CodeViewer, { type CodeSelection } from "./code-viewer";
+
+const ChatDialog = ({
+  open,
+  onOpenChange,
+  conversation,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversation: ReturnType<typeof useConversation>;
+}) => {
+  const { turns, loading, ask } = conversation;
+  const [followUp, setFollowUp] = React.useState("");
+  const bottomRef = React.useRef<HTMLDivElement>(null);
+  // The viewer shows the files of the turn last opened from, the newest if none
+  const [selection, setSelection] = React.useState<
+    (CodeSelection & { turn: number }) | null
+  >(null);
+  const viewedTurn = turns[selection?.turn ?? turns.length - 1];
+
+  // A new question brings the viewer over to its files
+  React.useEffect(() => {
+    setSelection(null);
+  }, [turns.length]);
+
+  // Keep the latest answer in view as it streams in
+  React.useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [turns]);
+
+  const onSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!followUp.trim()) {
+      return;
+    }
+    void ask(followUp);
+    setFollowUp("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>
+            <Image src="/logo.png" alt="logo" width={40} height={40} />
+          </DialogTitle>
+        </DialogHeader>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="max-h-[70vh] space-y-6 overflow-y-auto pr-2">
+            {turns.map((turn, index) => (
+              <div key={index} className="space-y-2">
+                <div className="ml-auto w-fit max-w-[80%] whitespace-pre-wrap rounded-md bg-primary px-3 py-2 text-sm text-white">
+                  {turn.question}
+                </div>
+                {turn.answer ? (
+                  <CitedAnswer
+                    answer={turn.answer}
+                    filesReferences={turn.filesReferences}
+                    indexedCommit={turn.indexedCommit}
+                    streaming={loading && index === turns.length - 1}
+                    onCite={(citation) =>
+                      setSelection({ ...citation, turn: index })
+                    }
+                  />
+                ) : (
+                  loading &&
+                  index === turns.length - 1 && (
+                    <div className="text-sm">Thinking...</div>
+                  )
+                )}
+                {turn.filesReferences.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {turn.filesReferences.map((file) => (
+                      <button
+                        key={file.fileName}
+                        type="button"
+                        onClick={() =>
+                          setSelection({ fileName: file.fileName, turn: index })
+                        }
+                      >
+                        <Badge
+                          variant="outline"
+                          className="font-mono font-normal hover:bg-muted"
+                        >
+                          {file.fileName}
+                        </Badge>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+            <div ref={bottomRef}></div>
+          </div>
+          {viewedTurn && (
+            <CodeViewer
+              files={viewedTurn.filesReferences}
+              selection={selection}
+              onSelect={(file) =>
+                setSelection({
+                  ...file,
+                  turn: selection?.turn ?? turns.length - 1,
+                })
+              }
+            />
+          )}
+        </div>
+        <form onSubmit={onSubmit} className="flex items-end gap-2">
+          <Textarea
+            value={followUp}
+            placeholder="Ask a follow-up question"
+            onChange={(e) => setFollowUp(e.target.value)}
+          />
+          <Button type="submit" disabled={loading || !followUp.trim()}>
+            Ask
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChatDialog;
@@ -0,0 +1,93 @@
+"use client";
+
+import useProject from "@/hooks/use-project";
+import { type Citation, parseCitations } from "@/lib/citations";
+import { type SourceCodeResult } from "@/lib/search";
+import { api } from "@/trpc/react";
+import { ExternalLink } from "lucide-react";
+import React from "react";
+
+// More citations than this in one answer are left without host links
+const MAX_LINKED_CITATIONS = 100;
+
+const citationLabel = ({ fileName, startLine, endLine }: Citation) =>
+  `${fileName.split("/").pop()}:${startLine}${endLine !== startLine ? `-${endLine}` : ""}`;
+
+/**
+ * An answer with its citations turned into buttons that open the cited lines,
+ * each followed by a link to them on the repository host.
+ */
+const CitedAnswer = ({
+  answer,
+  filesReferences,
+  indexedCommit,
+  streaming,
+  onCite,
+}: {
+  answer: string;
+  filesReferences: SourceCodeResult[];
+  indexedCommit: string | null;
+  streaming: boolean;
+  onCite: (citation: Citation) => void;
+}) => {
+  const { project } = useProject();
+  // Citations of files the answer wasn't given are made up, they stay text
+  const parts = React.useMemo(
+    () =>
+      parseCitations(answer).map((part) =>
+        part.type === "citation" &&
+        !filesReferences.some(
+          (file) => file.fileName === part.citation.fileName,
+        )
+          ? { type: "text" as const, text: part.text }
+          : part,
+      ),
+    [answer, filesReferences],
+  );
+  const citations = parts
+    .flatMap((part) => (part.type === "citation" ? [part.citation] : []))
+    .slice(0, MAX_LINKED_CITATIONS);
+
+  // Asked for once the answer is complete rather than per streamed delta
+  const { data: links } = api.question.getCitationLinks.useQuery(
+    { projectId: project?.id ?? "", indexedCommit, citations },
+    { enabled: !!project && !streaming && citations.length > 0 },
+  );
+
+  let citationIndex = 0;
+  return (
+    <div className="whitespace-pre-wrap text-sm">
+      {parts.map((part, index) => {
+        if (part.type === "text") {
+          return <React.Fragment key={index}>{part.text}</React.Fragment>;
+        }
+        const link = links?.[citationIndex++];
+        return (
+          <span key={index} className="inline-flex items-center gap-1">
+            <button
+              type="button"
+              title={part.citation.fileName}
+              onClick={() => onCite(part.citation)}
+              className="rounded bg-muted px-1 font-mono text-xs text-primary hover:underline"
+            >
+              {citationLabel(part.citation)}
+            </button>
+            {link && (
+              <a
+                href={link}
+                target="_blank"
+                rel="noopener noreferrer"
+                title="Open on the repository host"
+                className="text-muted-foreground hover:text-primary"
+              >
+                <ExternalLink className="size-3" />
+              </a>
+            )}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CitedAnswer;
@@ -0,0 +1,180 @@
+"use client";
+
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { type Citation } from "@/lib/citations";
+import { type SourceCodeResult } from "@/lib/search";
+import { cn } from "@/lib/utils";
+import { Highlight, themes } from "prism-react-renderer";
+import React from "react";
+
+// The file shown, with the cited lines when opened from a citation
+export type CodeSelection = { fileName: string } & Partial<
+  Pick<Citation, "startLine" | "endLine">
+>;
+
+// Only languages in prism-react-renderer's default bundle, Java for one isn't
+// in it. Other files are shown as plain text.
+const LANGUAGES: Record<string, string> = {
+  ts: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+  tsx: "tsx",
+  js: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  jsx: "jsx",
+  json: "json",
+  py: "python",
+  go: "go",
+  rs: "rust",
+  kt: "kotlin",
+  swift: "swift",
+  c: "c",
+  h: "c",
+  cpp: "cpp",
+  cc: "cpp",
+  hpp: "cpp",
+  m: "objectivec",
+  css: "css",
+  html: "markup",
+  xml: "markup",
+  svg: "markup",
+  md: "markdown",
+  yml: "yaml",
+  yaml: "yaml",
+  sql: "sql",
+  graphql: "graphql",
+  gql: "graphql",
+};
+
+const languageOf = (fileName: string) =>
+  LANGUAGES[fileName.split(".").pop()!.toLowerCase()] ?? "text";
+
+const baseName = (fileName: string) => fileName.split("/").pop()!;
+
+const CodeBlock = ({
+  file,
+  selection,
+}: {
+  file: SourceCodeResult;
+  selection: CodeSelection | null;
+}) => {
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const { startLine, endLine = startLine } = selection ?? {};
+
+  // Bring the cited lines into view, again each time a citation is clicked
+  React.useEffect(() => {
+    if (startLine) {
+      containerRef.current
+        ?.querySelector(`[data-line="${startLine}"]`)
+        ?.scrollIntoView({ block: "center" });
+    }
+  }, [selection, startLine]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="max-h-[60vh] overflow-auto rounded-md border"
+    >
+      <Highlight
+        theme={themes.github}
+        code={file.sourceCode}
+        language={languageOf(file.fileName)}
+      >
+        {({ className, style, tokens, getLineProps, getTokenProps }) => (
+          <pre
+            className={cn(className, "w-fit min-w-full py-2 text-xs")}
+            style={style}
+          >
+            {tokens.map((line, index) => {
+              const lineNumber = index + 1;
+              const cited =
+                !!startLine &&
+                lineNumber >= startLine &&
+                lineNumber <= endLine!;
+              return (
+                <div
+                  key={index}
+                  data-line={lineNumber}
+                  {...getLineProps({
+                    line,
+                    className: cn("flex pr-4", cited && "bg-yellow-100"),
+                  })}
+                >
+                  <span
+                    className={cn(
+                      "w-12 shrink-0 select-none pr-4 text-right text-gray-400",
+                      cited && "text-gray-600",
+                    )}
+                  >
+                    {lineNumber}
+                  </span>
+                  <span>
+                    {line.map((token, key) => (
+                      <span key={key} {...getTokenProps({ token })} />
+                    ))}
+                  </span>
+                </div>
+              );
+            })}
+          </pre>
+        )}
+      </Highlight>
+    </div>
+  );
+};
+
+/**
+ * The referenced files in tabs, with syntax highlighting. Opening a citation
+ * switches to its file and highlights the cited lines.
+ */
+const CodeViewer = ({
+  files,
+  selection,
+  onSelect,
+}: {
+  files: SourceCodeResult[];
+  selection: CodeSelection | null;
+  onSelect: (selection: CodeSelection) => void;
+}) => {
+  const active = files.some((file) => file.fileName === selection?.fileName)
+    ? selection!.fileName
+    : files[0]?.fileName;
+  if (!active) {
+    return null;
+  }
+
+  return (
+    <Tabs
+      value={active}
+      onValueChange={(fileName) => onSelect({ fileName })}
+      className="min-w-0"
+    >
+      <TabsList className="h-auto flex-wrap justify-start">
+        {files.map((file) => (
+          <TabsTrigger
+            key={file.fileName}
+            value={file.fileName}
+            title={file.fileName}
+            className="font-mono text-xs"
+          >
+            {baseName(file.fileName)}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+      {files.map((file) => (
+        <TabsContent key={file.fileName} value={file.fileName}>
+          <p className="mb-1 truncate font-mono text-xs text-muted-foreground">
+            {file.fileName}
+          </p>
+          <CodeBlock
+            file={file}
+            selection={selection?.fileName === file.fileName ? selection : null}
+          />
+        </TabsContent>
+      ))}
+    </Tabs>
+  );
+};
+
+export default CodeViewer;
@@ -7,7 +7,7 @@ import { ExternalLink } from "lucide-react";
 import Link from "next/link";
 
 const CommitLog = () => {
-  const { projectId, project } = useProject();
+  const { projectId } = useProject();
   const { data: commits } = api.project.getCommits.useQuery({
     projectId,
   });
@@ -34,24 +34,39 @@ const CommitLog = () => {
                 />
                 <div className="flex-auto rounded-md bg-white p-3 ring-1 ring-inset ring-gray-200">
                   <div className="flex justify-between gap-x-4">
-                    <Link
-                      target="_blank"
-                      href={`${project?.githubUrl}/commits/${commit.commitHash}`}
-                      className="flex items-center gap-x-1 py-0.5 text-xs leading-5 text-gray-500"
-                    >
-                      <span className="font-medium text-gray-900">
-                        {commit.commitAuthorName}
-                      </span>
-                      <span className="inline-flex items-center gap-x-1">
+                    {commit.commitUrl ? (
+                      <Link
+                        target="_blank"
+                        href={commit.commitUrl}
+                        className="flex items-center gap-x-1 py-0.5 text-xs leading-5 text-gray-500"
+                      >
+                        <span className="font-medium text-gray-900">
+                          {commit.commitAuthorName}
+                        </span>
+                        <span className="inline-flex items-center gap-x-1">
+                          commited
+                          <ExternalLink className="size-4" />
+                        </span>
+                      </Link>
+                    ) : (
+                      <span className="py-0.5 text-xs leading-5 text-gray-500">
+                        <span className="font-medium text-gray-900">
+                          {commit.commitAuthorName}
+                        </span>{" "}
                         commited
-                        <ExternalLink className="size-4" />
                       </span>
-                    </Link>
+                    )}
                   </div>
                   <span className="font-semibold">{commit.commitMessage}</span>
                   <pre className="mt-2 whitespace-pre-wrap text-sm leading-6 text-gray-500">
                     {commit.summary}
                   </pre>
+                  {commit.summaryModel && (
+                    <p className="mt-1 text-xs text-gray-400">
+                      Summarised by {commit.summaryModel}, prompt v
+                      {commit.summaryPromptVersion}
+                    </p>
+                  )}
                 </div>
               </>
             </li>
@@ -0,0 +1,74 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import useIndexingStatus from "@/hooks/use-indexing-status";
+
+const IndexingProgressCard = () => {
+  const { job, isIndexing } = useIndexingStatus();
+
+  if (!job) {
+    return null;
+  }
+  if (!isIndexing && job.status !== "FAILED") {
+    if (!job.project.syncError) {
+      return null;
+    }
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Latest commits not indexed</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-red-500">{job.project.syncError}</p>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Their changes are indexed on the next check for new commits
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const processed = job.filesEmbedded + job.filesFailed;
+  const percentage =
+    job.filesDiscovered > 0
+      ? Math.round((processed / job.filesDiscovered) * 100)
+      : 0;
+
+  const counters = [
+    { label: "Discovered", value: job.filesDiscovered },
+    { label: "Summarised", value: job.filesSummarised },
+    { label: "Embedded", value: job.filesEmbedded },
+    { label: "Failed", value: job.filesFailed },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          {job.status === "QUEUED" && "Waiting to index repository..."}
+          {job.status === "RUNNING" && "Indexing repository..."}
+          {job.status === "FAILED" && "Indexing failed"}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Progress value={percentage} />
+        <div className="mt-4 grid grid-cols-2 gap-4 sm:grid-cols-4">
+          {counters.map((counter) => {
+            return (
+              <div key={counter.label}>
+                <div className="text-2xl font-semibold">{counter.value}</div>
+                <div className="text-sm text-muted-foreground">
+                  {counter.label}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        {job.error && <p className="mt-4 text-sm text-red-500">{job.error}</p>}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default IndexingProgressCard;
@@ -1,30 +1,43 @@
 "use client";
 import useProject from "@/hooks/use-project";
-import { ExternalLink, Github } from "lucide-react";
+import { ExternalLink, GitBranch } from "lucide-react";
 import Link from "next/link";
 import AskQuestionCard from "./ask-question-card";
 import CommitLog from "./commit-log";
+import IndexingProgressCard from "./indexing-progress-card";
 
 const DashboardPage = () => {
   const { project } = useProject();
+  // Uploaded archives are a single snapshot without commits
+  const isArchive = project?.provider === "ARCHIVE";
   return (
     <div>
       {project?.id}
       <div className="flex flex-wrap items-center justify-between gap-y-4">
-        {/* Github Link */}
+        {/* Repository Link */}
         <div className="w-fit rounded-md bg-primary px-4 py-3">
           <div className="item-center flex">
-            <Github className="size-5 text-white" />
+            <GitBranch className="size-5 text-white" />
             <div className="ml-2">
               <div className="text-sm font-medium text-white">
-                This project is linked to{" "}
-                <Link
-                  href={project?.githubUrl ?? ""}
-                  className="inline-flex items-center text-white/80 hover:underline"
-                >
-                  {project?.githubUrl}
-                  <ExternalLink className="ml-1 size-4" />
-                </Link>
+                {isArchive ? (
+                  "This project was created from an uploaded archive"
+                ) : (
+                  <>
+                    This project is linked to{" "}
+                    {project?.provider === "GIT" ? (
+                      <span className="text-white/80">{project.repoUrl}</span>
+                    ) : (
+                      <Link
+                        href={project?.repoUrl ?? ""}
+                        className="inline-flex items-center text-white/80 hover:underline"
+                      >
+                        {project?.repoUrl}
+                        <ExternalLink className="ml-1 size-4" />
+                      </Link>
+                    )}
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -37,6 +50,10 @@ const DashboardPage = () => {
         </div>
       </div>
 
+      <div className="mt-4">
+        <IndexingProgressCard />
+      </div>
+
       <div className="mt-4">
         <div className="grid grid-cols-1 gap-4 sm:grid-cols-5">
           <AskQuestionCard />
@@ -44,9 +61,11 @@ const DashboardPage = () => {
         </div>
       </div>
 
-      <div className="mt-8">
-        <CommitLog />
-      </div>
+      {!isArchive && (
+        <div className="mt-8">
+          <CommitLog />
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,208 @@
+"use client";
+
+import { useMemo } from "react";
+
+type Edge = { fromFile: string; toFile: string };
+type Point = { x: number; y: number };
+
+const WIDTH = 900;
+const HEIGHT = 600;
+// The layout is quadratic in the node count, bigger graphs are trimmed
+const MAX_NODES = 200;
+const ITERATIONS = 200;
+
+/**
+ * A basic force-directed layout: every pair of nodes repels, edges pull their
+ * ends together and a weak pull keeps everything near the centre.
+ */
+const layoutGraph = (files: string[], edges: Edge[]) => {
+  const positions = new Map<string, Point>(
+    files.map((file, index) => {
+      const angle = (index / files.length) * 2 * Math.PI;
+      return [
+        file,
+        {
+          x: WIDTH / 2 + (WIDTH / 3) * Math.cos(angle),
+          y: HEIGHT / 2 + (HEIGHT / 3) * Math.sin(angle),
+        },
+      ];
+    }),
+  );
+  const ideal = Math.sqrt((WIDTH * HEIGHT) / Math.max(files.length, 1));
+  const nodes = [...positions.values()];
+  const indexOf = new Map(files.map((file, index) => [file, index]));
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    // Cools down so the layout settles instead of oscillating
+    const temperature = (WIDTH / 10) * (1 - iteration / ITERATIONS);
+    const forces = nodes.map(() => ({ x: 0, y: 0 }));
+
+    nodes.forEach((a, i) => {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const b = nodes[j]!;
+        const dx = a.x - b.x;
+        const dy = a.y - b.y;
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (ideal * ideal) / distance;
+        forces[i]!.x += (dx / distance) * force;
+        forces[i]!.y += (dy / distance) * force;
+        forces[j]!.x -= (dx / distance) * force;
+        forces[j]!.y -= (dy / distance) * force;
+      }
+    });
+
+    for (const edge of edges) {
+      const i = indexOf.get(edge.fromFile)!;
+      const j = indexOf.get(edge.toFile)!;
+      const a = nodes[i]!;
+      const b = nodes[j]!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (distance * distance) / ideal;
+      forces[i]!.x -= (dx / distance) * force;
+      forces[i]!.y -= (dy / distance) * force;
+      forces[j]!.x += (dx / distance) * force;
+      forces[j]!.y += (dy / distance) * force;
+    }
+
+    nodes.forEach((node, i) => {
+      const force = forces[i]!;
+      force.x += (WIDTH / 2 - node.x) * 0.05;
+      force.y += (HEIGHT / 2 - node.y) * 0.05;
+      const magnitude = Math.max(Math.hypot(force.x, force.y), 0.01);
+      const step = Math.min(magnitude, temperature);
+      node.x = Math.min(
+        WIDTH - 10,
+        Math.max(10, node.x + (force.x / magnitude) * step),
+      );
+      node.y = Math.min(
+        HEIGHT - 10,
+        Math.max(10, node.y + (force.y / magnitude) * step),
+      );
+    });
+  }
+
+  return positions;
+};
+
+const baseName = (file: string) => file.split("/").pop() ?? file;
+
+const DependencyGraph = ({
+  files,
+  edges,
+  selectedFile,
+  onSelect,
+}: {
+  files: string[];
+  edges: Edge[];
+  selectedFile: string | null;
+  onSelect: (file: string) => void;
+}) => {
+  // Keeps the most connected files when the graph is too big to lay out
+  const { shownFiles, shownEdges } = useMemo(() => {
+    const degree = new Map<string, number>();
+    for (const edge of edges) {
+      degree.set(edge.fromFile, (degree.get(edge.fromFile) ?? 0) + 1);
+      degree.set(edge.toFile, (degree.get(edge.toFile) ?? 0) + 1);
+    }
+    const shownFiles = [...files]
+      .sort((a, b) => (degree.get(b) ?? 0) - (degree.get(a) ?? 0))
+      .slice(0, MAX_NODES);
+    const shown = new Set(shownFiles);
+    return {
+      shownFiles,
+      shownEdges: edges.filter(
+        (edge) => shown.has(edge.fromFile) && shown.has(edge.toFile),
+      ),
+    };
+  }, [files, edges]);
+
+  const positions = useMemo(
+    () => layoutGraph(shownFiles, shownEdges),
+    [shownFiles, shownEdges],
+  );
+
+  const neighbours = new Set(
+    shownEdges.flatMap((edge) =>
+      edge.fromFile === selectedFile
+        ? [edge.toFile]
+        : edge.toFile === selectedFile
+          ? [edge.fromFile]
+          : [],
+    ),
+  );
+
+  return (
+    <div>
+      {files.length > shownFiles.length && (
+        <p className="mb-2 text-sm text-muted-foreground">
+          Showing the {shownFiles.length} most connected of {files.length} files
+        </p>
+      )}
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full rounded-md border bg-white"
+      >
+        <defs>
+          <marker
+            id="arrow"
+            viewBox="0 0 10 10"
+            refX="14"
+            refY="5"
+            markerWidth="5"
+            markerHeight="5"
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+          </marker>
+        </defs>
+        {shownEdges.map((edge) => {
+          const from = positions.get(edge.fromFile)!;
+          const to = positions.get(edge.toFile)!;
+          const isSelected =
+            edge.fromFile === selectedFile || edge.toFile === selectedFile;
+          return (
+            <line
+              key={`${edge.fromFile}->${edge.toFile}`}
+              x1={from.x}
+              y1={from.y}
+              x2={to.x}
+              y2={to.y}
+              stroke={isSelected ? "hsl(var(--primary))" : "#e5e7eb"}
+              strokeWidth={isSelected ? 1.5 : 1}
+              markerEnd="url(#arrow)"
+            />
+          );
+        })}
+        {shownFiles.map((file) => {
+          const { x, y } = positions.get(file)!;
+          const isSelected = file === selectedFile;
+          const showLabel = isSelected || neighbours.has(file);
+          return (
+            <g
+              key={file}
+              onClick={() => onSelect(file)}
+              className="cursor-pointer"
+            >
+              <title>{file}</title>
+              <circle
+                cx={x}
+                cy={y}
+                r={isSelected ? 7 : 5}
+                className={showLabel ? "fill-primary" : "fill-gray-400"}
+              />
+              {showLabel && (
+                <text x={x + 9} y={y + 4} className="fill-gray-700 text-[11px]">
+                  {baseName(file)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default DependencyGraph;
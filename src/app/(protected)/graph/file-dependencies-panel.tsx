@@ -0,0 +1,78 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { api } from "@/trpc/react";
+
+const FileList = ({
+  title,
+  files,
+  onSelect,
+}: {
+  title: string;
+  files: string[];
+  onSelect: (file: string) => void;
+}) => {
+  return (
+    <div>
+      <h3 className="text-sm font-medium">
+        {title} ({files.length})
+      </h3>
+      {files.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None</p>
+      ) : (
+        <ul className="mt-1 space-y-1">
+          {files.map((file) => (
+            <li key={file}>
+              <button
+                type="button"
+                onClick={() => onSelect(file)}
+                className="break-all text-left font-mono text-xs hover:underline"
+              >
+                {file}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const FileDependenciesPanel = ({
+  projectId,
+  fileName,
+  onSelect,
+}: {
+  projectId: string;
+  fileName: string;
+  onSelect: (file: string) => void;
+}) => {
+  const { data } = api.dependency.getFileDependencies.useQuery({
+    projectId,
+    fileName,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="break-all font-mono text-sm">
+          {fileName}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <FileList
+          title="Depends on"
+          files={data?.dependsOn ?? []}
+          onSelect={onSelect}
+        />
+        <FileList
+          title="Depended on by"
+          files={data?.dependedOnBy ?? []}
+          onSelect={onSelect}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FileDependenciesPanel;
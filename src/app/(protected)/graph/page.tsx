@@ -0,0 +1,74 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import useProject from "@/hooks/use-project";
+import { api } from "@/trpc/react";
+import { useState } from "react";
+import DependencyGraph from "./dependency-graph";
+import FileDependenciesPanel from "./file-dependencies-panel";
+
+const GraphPage = () => {
+  const { project } = useProject();
+  const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  const { data: graph, isLoading } = api.dependency.getGraph.useQuery(
+    { projectId: project?.id ?? "" },
+    { enabled: !!project },
+  );
+
+  if (!project) {
+    return <div>Select a project to see its dependency graph</div>;
+  }
+
+  return (
+    <div>
+      <h1 className="text-2xl font-semibold">Dependencies</h1>
+      <p className="text-sm text-muted-foreground">
+        Imports between the files of {project.name}. Pick a file to see what it
+        depends on and what depends on it.
+      </p>
+      <div className="h-4"></div>
+      <Input
+        list="graph-files"
+        placeholder="Find a file..."
+        className="max-w-md"
+        onChange={(event) => {
+          if (graph?.files.includes(event.target.value)) {
+            setSelectedFile(event.target.value);
+          }
+        }}
+      />
+      <datalist id="graph-files">
+        {graph?.files.map((file) => <option key={file} value={file} />)}
+      </datalist>
+      <div className="h-4"></div>
+
+      {isLoading && <p className="text-sm">Loading graph...</p>}
+      {graph && graph.edges.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No imports were found between the indexed files
+        </p>
+      )}
+      {graph && graph.edges.length > 0 && (
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+          <div className="lg:col-span-2">
+            <DependencyGraph
+              files={graph.files}
+              edges={graph.edges}
+              selectedFile={selectedFile}
+              onSelect={setSelectedFile}
+            />
+          </div>
+          {selectedFile && (
+            <FileDependenciesPanel
+              projectId={project.id}
+              fileName={selectedFile}
+              onSelect={setSelectedFile}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GraphPage;
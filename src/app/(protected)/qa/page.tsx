@@ -1,5 +1,175 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import useConversation from "@/hooks/use-conversation";
+import useProject from "@/hooks/use-project";
+import { api } from "@/trpc/react";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import ChatDialog from "../dashboard/chat-dialog";
+import QuestionSheet, { authorName } from "./question-sheet";
+
+type FormInput = {
+  search: string;
+  authorId: string;
+  // yyyy-mm-dd from the date inputs, empty for no limit
+  from: string;
+  to: string;
+};
+
 const QAPage = () => {
-  return <div>QAPage</div>;
+  const { project } = useProject();
+  const { register, handleSubmit, setValue, watch } = useForm<FormInput>({
+    defaultValues: { search: "", authorId: "ALL", from: "", to: "" },
+  });
+  const [filters, setFilters] = useState<FormInput | null>(null);
+  const [openQuestionId, setOpenQuestionId] = useState<string | null>(null);
+  const conversation = useConversation();
+  const [chatOpen, setChatOpen] = useState(false);
+
+  const { data: authors } = api.question.getAuthors.useQuery(
+    { projectId: project?.id ?? "" },
+    { enabled: !!project },
+  );
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    api.question.getQuestions.useInfiniteQuery(
+      {
+        projectId: project?.id ?? "",
+        search: filters?.search || undefined,
+        authorId:
+          filters?.authorId && filters.authorId !== "ALL"
+            ? filters.authorId
+            : undefined,
+        // Whole days in the user's time zone
+        from: filters?.from ? new Date(`${filters.from}T00:00:00`) : undefined,
+        to: filters?.to ? new Date(`${filters.to}T23:59:59.999`) : undefined,
+      },
+      {
+        enabled: !!project,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+      },
+    );
+  const questions = data?.pages.flatMap((page) => page.items) ?? [];
+
+  function onSubmit(data: FormInput) {
+    setFilters(data);
+  }
+
+  return (
+    <div>
+      <h1 className="text-2xl font-semibold">Questions & answers</h1>
+      <p className="text-sm text-muted-foreground">
+        Questions asked about {project?.name ?? "this project"} and the answers
+        they got
+      </p>
+      <div className="h-4"></div>
+      <form
+        onSubmit={handleSubmit(onSubmit)}
+        className="flex flex-wrap items-center gap-4"
+      >
+        <Input
+          {...register("search")}
+          placeholder="Search questions and answers"
+          className="max-w-sm"
+        />
+        <Select
+          value={watch("authorId")}
+          onValueChange={(value) => setValue("authorId", value)}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="ALL">Everyone</SelectItem>
+            {authors?.map((author) => (
+              <SelectItem key={author.id} value={author.id}>
+                {authorName(author)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <label className="flex items-center gap-2 text-sm">
+          From
+          <Input type="date" className="w-40" {...register("from")} />
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          To
+          <Input type="date" className="w-40" {...register("to")} />
+        </label>
+        <Button type="submit">Search</Button>
+      </form>
+
+      <div className="h-4"></div>
+      {data && questions.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          {filters
+            ? "No questions match these filters"
+            : "No questions yet, ask one from the dashboard"}
+        </p>
+      )}
+      <ul className="space-y-3">
+        {questions.map((question) => (
+          <li key={question.id}>
+            <button
+              type="button"
+              onClick={() => setOpenQuestionId(question.id)}
+              className="w-full rounded-md bg-white p-4 text-left ring-1 ring-inset ring-gray-200 hover:bg-gray-50"
+            >
+              <div className="flex items-center gap-x-3">
+                {question.user.imageUrl && (
+                  <img
+                    src={question.user.imageUrl}
+                    alt={authorName(question.user)}
+                    className="size-6 flex-none rounded-full"
+                  />
+                )}
+                <p className="line-clamp-1 font-medium">{question.question}</p>
+                <span className="ml-auto whitespace-nowrap text-xs text-muted-foreground">
+                  {question.createdAt.toLocaleString()}
+                </span>
+              </div>
+              <p className="mt-1 line-clamp-2 text-sm text-gray-500">
+                {question.answer}
+              </p>
+            </button>
+          </li>
+        ))}
+      </ul>
+      {hasNextPage && (
+        <Button
+          variant="outline"
+          className="mt-4"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+        >
+          Load more
+        </Button>
+      )}
+
+      <QuestionSheet
+        questionId={openQuestionId}
+        onClose={() => setOpenQuestionId(null)}
+        onContinue={(saved) => {
+          setOpenQuestionId(null);
+          conversation.start(saved);
+          setChatOpen(true);
+        }}
+      />
+      <ChatDialog
+        open={chatOpen}
+        onOpenChange={setChatOpen}
+        conversation={conversation}
+      />
+    </div>
+  );
 };
 
 export default QAPage;
@@ -0,0 +1,159 @@
+"use client";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { type ConversationTurn } from "@/lib/conversation";
+import { api } from "@/trpc/react";
+import React from "react";
+import { toast } from "sonner";
+import CitedAnswer from "../dashboard/cited-answer";
+import CodeViewer, { type CodeSelection } from "../dashboard/code-viewer";
+
+export const authorName = (user: {
+  firstName: string | null;
+  lastName: string | null;
+}) => [user.firstName, user.lastName].filter(Boolean).join(" ") || "Unknown";
+
+const QuestionSheet = ({
+  questionId,
+  onClose,
+  onContinue,
+}: {
+  questionId: string | null;
+  onClose: () => void;
+  onContinue: (conversation: { id: string; turns: ConversationTurn[] }) => void;
+}) => {
+  const { data: question } = api.question.getQuestion.useQuery(
+    { id: questionId ?? "" },
+    { enabled: !!questionId },
+  );
+  const deleteQuestion = api.question.deleteQuestion.useMutation();
+  const [selection, setSelection] = React.useState<CodeSelection | null>(null);
+  const utils = api.useUtils();
+
+  React.useEffect(() => {
+    setSelection(null);
+  }, [questionId]);
+
+  function onDelete() {
+    if (!questionId) {
+      return;
+    }
+    deleteQuestion.mutate(
+      { id: questionId },
+      {
+        onSuccess: () => {
+          toast.success("Question deleted");
+          onClose();
+          void utils.question.invalidate();
+        },
+        onError: (error) => {
+          toast.error(error.message || "Failed to delete the question");
+        },
+      },
+    );
+  }
+
+  return (
+    <Sheet open={!!questionId} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-2xl">
+        {question && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{question.question}</SheetTitle>
+              <SheetDescription>
+                Asked by {authorName(question.user)} on{" "}
+                {question.createdAt.toLocaleString()}
+              </SheetDescription>
+            </SheetHeader>
+            <div className="h-4"></div>
+            <CitedAnswer
+              answer={question.answer}
+              filesReferences={question.filesReferences}
+              indexedCommit={question.indexedCommit}
+              streaming={false}
+              onCite={setSelection}
+            />
+            {question.filesReferences.length > 0 && (
+              <>
+                <div className="h-4"></div>
+                <h2 className="text-sm font-semibold">Files referenced</h2>
+                <div className="h-1"></div>
+                <CodeViewer
+                  files={question.filesReferences}
+                  selection={selection}
+                  onSelect={setSelection}
+                />
+              </>
+            )}
+            {question.conversation && (
+              <>
+                <div className="h-6"></div>
+                <p className="text-sm text-muted-foreground">
+                  Part of a conversation of {question.conversation.turns.length}{" "}
+                  questions
+                </p>
+                <Button
+                  variant="outline"
+                  className="mt-2"
+                  onClick={() => onContinue(question.conversation!)}
+                >
+                  Continue the conversation
+                </Button>
+              </>
+            )}
+            {question.canDelete && (
+              <>
+                <div className="h-6"></div>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="destructive"
+                      disabled={deleteQuestion.isPending}
+                    >
+                      Delete
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete this question?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The question and its answer are removed for everyone on
+                        the project.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={onDelete}>
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </>
+            )}
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default QuestionSheet;
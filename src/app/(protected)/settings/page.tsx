@@ -0,0 +1,171 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import useProject from "@/hooks/use-project";
+import useRefetch from "@/hooks/use-refetch";
+import { api } from "@/trpc/react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+type FormInput = {
+  branch: string;
+  includeGlobs: string;
+  excludeGlobs: string;
+  commitSummaryModel: string;
+  codeSummaryModel: string;
+  answerModel: string;
+  accessToken: string;
+};
+
+const MODEL_FIELDS = [
+  { name: "commitSummaryModel", label: "Commit summaries" },
+  { name: "codeSummaryModel", label: "File summaries" },
+  { name: "answerModel", label: "Answers" },
+] as const;
+
+// Globs are edited one per line
+const parseGlobs = (value: string) => {
+  return value
+    .split("\n")
+    .map((glob) => glob.trim())
+    .filter(Boolean);
+};
+
+const SettingsPage = () => {
+  const { project } = useProject();
+  const { register, handleSubmit } = useForm<FormInput>({
+    values: {
+      branch: project?.branch ?? "",
+      includeGlobs: project?.includeGlobs.join("\n") ?? "",
+      excludeGlobs: project?.excludeGlobs.join("\n") ?? "",
+      commitSummaryModel: project?.commitSummaryModel ?? "",
+      codeSummaryModel: project?.codeSummaryModel ?? "",
+      answerModel: project?.answerModel ?? "",
+      accessToken: "",
+    },
+  });
+  const updateProject = api.project.updateProject.useMutation();
+  const refetch = useRefetch();
+
+  if (!project) {
+    return <div>Select a project to change its settings</div>;
+  }
+
+  function onSubmit(data: FormInput) {
+    if (!project) {
+      return;
+    }
+    updateProject.mutate(
+      {
+        projectId: project.id,
+        branch: data.branch,
+        includeGlobs: parseGlobs(data.includeGlobs),
+        excludeGlobs: parseGlobs(data.excludeGlobs),
+        commitSummaryModel: data.commitSummaryModel,
+        codeSummaryModel: data.codeSummaryModel,
+        answerModel: data.answerModel,
+        accessToken: data.accessToken,
+      },
+      {
+        onSuccess: () => {
+          toast.success("Project settings saved");
+          void refetch();
+        },
+        onError: (error) => {
+          toast.error(error.message || "Failed to save project settings");
+        },
+      },
+    );
+  }
+
+  return (
+    <div className="max-w-xl">
+      <h1 className="text-2xl font-semibold">Project Settings</h1>
+      <p className="text-sm text-muted-foreground">
+        Changing the branch or file rules re-indexes {project.name} from scratch
+      </p>
+      <div className="h-4"></div>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        {/* Uploaded archives have no branches */}
+        {project.provider !== "ARCHIVE" && (
+          <>
+            <label className="text-sm font-medium" htmlFor="branch">
+              Branch
+            </label>
+            <Input
+              id="branch"
+              {...register("branch", { required: true })}
+              placeholder="main"
+            />
+            <div className="h-4"></div>
+            <label className="text-sm font-medium" htmlFor="accessToken">
+              Access token
+            </label>
+            <p className="text-xs text-muted-foreground">
+              Needed to re-index a private repository, it isn&apos;t stored once
+              indexing finishes
+            </p>
+            <Input
+              id="accessToken"
+              type="password"
+              {...register("accessToken")}
+              placeholder="Access Token (Optional)"
+            />
+            <div className="h-4"></div>
+          </>
+        )}
+        <label className="text-sm font-medium" htmlFor="includeGlobs">
+          Include
+        </label>
+        <p className="text-xs text-muted-foreground">
+          Only index files matching these globs, one per line. Leave empty to
+          index everything.
+        </p>
+        <Textarea
+          id="includeGlobs"
+          {...register("includeGlobs")}
+          placeholder={"src/\n*.md"}
+        />
+        <div className="h-4"></div>
+        <label className="text-sm font-medium" htmlFor="excludeGlobs">
+          Exclude
+        </label>
+        <p className="text-xs text-muted-foreground">
+          Never index files matching these globs, one per line. A .codojoignore
+          file in the repository root is applied as well.
+        </p>
+        <Textarea
+          id="excludeGlobs"
+          {...register("excludeGlobs")}
+          placeholder={"**/__snapshots__/\nvendor/\n*.generated.ts"}
+        />
+        <div className="h-4"></div>
+        <h2 className="text-lg font-semibold">Models</h2>
+        <p className="text-xs text-muted-foreground">
+          Written as provider/model, e.g. ollama/llama3.1 or openai/gpt-4o-mini.
+          Leave empty to use the default.
+        </p>
+        <div className="h-2"></div>
+        {MODEL_FIELDS.map((field) => (
+          <div key={field.name} className="mb-4">
+            <label className="text-sm font-medium" htmlFor={field.name}>
+              {field.label}
+            </label>
+            <Input
+              id={field.name}
+              {...register(field.name)}
+              placeholder="gemini/gemini-1.5-flash"
+            />
+          </div>
+        ))}
+        <Button type="submit" disabled={updateProject.isPending}>
+          Save Settings
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,148 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import useProject from "@/hooks/use-project";
+import { api } from "@/trpc/react";
+import { ExternalLink } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+
+type FormInput = {
+  query: string;
+  allProjects: boolean;
+  exact: boolean;
+};
+
+const SymbolsPage = () => {
+  const { project } = useProject();
+  const { register, handleSubmit, setValue, watch } = useForm<FormInput>({
+    defaultValues: { query: "", allProjects: false, exact: false },
+  });
+  const [search, setSearch] = useState<FormInput | null>(null);
+
+  const searchProjectId = search?.allProjects ? undefined : project?.id;
+  const { data: symbols, isFetching } = api.symbol.searchSymbols.useQuery(
+    {
+      query: search?.query ?? "",
+      projectId: searchProjectId,
+      mode: search?.exact ? "exact" : "fuzzy",
+    },
+    { enabled: !!search?.query.trim() },
+  );
+
+  function onSubmit(data: FormInput) {
+    setSearch(data);
+  }
+
+  return (
+    <div>
+      <h1 className="text-2xl font-semibold">Symbols</h1>
+      <p className="text-sm text-muted-foreground">
+        Find where functions, classes, types and exported constants are defined
+      </p>
+      <div className="h-4"></div>
+      <form
+        onSubmit={handleSubmit(onSubmit)}
+        className="flex flex-wrap items-center gap-4"
+      >
+        <Input
+          {...register("query", { required: true })}
+          placeholder="pollCommits"
+          className="max-w-sm"
+        />
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={watch("exact")}
+            onCheckedChange={(checked) => setValue("exact", checked === true)}
+          />
+          Exact name
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={watch("allProjects")}
+            onCheckedChange={(checked) =>
+              setValue("allProjects", checked === true)
+            }
+          />
+          All my projects
+        </label>
+        <Button type="submit" disabled={isFetching}>
+          Search
+        </Button>
+      </form>
+
+      <div className="h-4"></div>
+      {search && !isFetching && symbols?.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No symbols found for &quot;{search.query}&quot;
+        </p>
+      )}
+      {symbols && symbols.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Kind</TableHead>
+              <TableHead>Location</TableHead>
+              {search?.allProjects && <TableHead>Project</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {symbols.map((symbol) => {
+              const location = `${symbol.fileName}:${symbol.line}`;
+              return (
+                <TableRow key={symbol.id}>
+                  <TableCell className="font-mono font-medium">
+                    {symbol.name}
+                    {symbol.exactMatch && (
+                      <Badge variant="secondary" className="ml-2">
+                        exact
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {symbol.exported ? "exported " : ""}
+                      {symbol.kind.toLowerCase()}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {symbol.fileUrl ? (
+                      <Link
+                        target="_blank"
+                        href={symbol.fileUrl}
+                        className="inline-flex items-center gap-x-1 hover:underline"
+                      >
+                        {location}
+                        <ExternalLink className="size-3" />
+                      </Link>
+                    ) : (
+                      location
+                    )}
+                  </TableCell>
+                  {search?.allProjects && (
+                    <TableCell>{symbol.projectName}</TableCell>
+                  )}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default SymbolsPage;
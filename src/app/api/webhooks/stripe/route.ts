@@ -0,0 +1,41 @@
+import { addPurchasedCredits } from "@/lib/credits";
+import { getPaymentProvider } from "@/lib/payment-providers";
+import { type NextRequest, NextResponse } from "next/server";
+
+/**
+ * Stripe's checkout events. Credits are granted here as well as when the user
+ * comes back to the billing page, so closing the tab after paying doesn't lose
+ * them. Whichever arrives second finds them already paid out.
+ */
+export async function POST(req: NextRequest) {
+  const provider = getPaymentProvider();
+  if (!provider) {
+    return NextResponse.json(
+      { error: "Buying credits isn't enabled on this server" },
+      { status: 404 },
+    );
+  }
+
+  // The signature covers the raw body, so it's read as text
+  const payload = await req.text();
+  let checkoutId: string | null;
+  try {
+    checkoutId = provider.verifyWebhook(
+      payload,
+      req.headers.get("stripe-signature"),
+    );
+  } catch (error) {
+    console.error("Rejected payment webhook:", error);
+    return NextResponse.json({ error: "Invalid webhook" }, { status: 400 });
+  }
+
+  if (checkoutId) {
+    // Looked up with the provider like confirmCheckout does. Errors answer
+    // with a 500, which Stripe retries.
+    const checkout = await provider.getCheckout(checkoutId);
+    if (checkout.paid && checkout.userId) {
+      await addPurchasedCredits(checkout.userId, checkout.credits, checkout.id);
+    }
+  }
+  return NextResponse.json({ received: true });
+}
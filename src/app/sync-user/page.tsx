@@ -1,3 +1,4 @@
+import { SIGN_UP_CREDITS } from "@/lib/credits";
 import { db } from "@/server/db";
 import { auth, clerkClient } from "@clerk/nextjs/server";
 import { notFound, redirect } from "next/navigation";
@@ -30,6 +31,15 @@ const SyncUser = async () => {
       imageUrl: user.imageUrl,
       firstName: user.firstName,
       lastName: user.lastName,
+      credits: SIGN_UP_CREDITS,
+      CreditTransaction: {
+        create: {
+          type: "GRANT",
+          amount: SIGN_UP_CREDITS,
+          balanceAfter: SIGN_UP_CREDITS,
+          description: "Sign-up credits",
+        },
+      },
     },
   });
   return redirect("/dashboard");
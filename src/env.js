@@ -11,6 +11,64 @@ export const env = createEnv({
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
+    // Fallback tokens for polling repositories once the user's token is gone
+    GITHUB_TOKEN: z.string().optional(),
+    GITLAB_TOKEN: z.string().optional(),
+    BITBUCKET_TOKEN: z.string().optional(),
+    GITEA_TOKEN: z.string().optional(),
+    // The GitLab and Gitea instances the fallback tokens belong to, they are
+    // never sent to repositories on other hosts
+    GITLAB_URL: z.string().url().default("https://gitlab.com"),
+    GITEA_URL: z.string().url().optional(),
+    // Bare clones of repositories read with plain git, defaults to the OS temp dir
+    GIT_CACHE_DIR: z.string().optional(),
+    // Local repositories can only be indexed from inside this directory
+    LOCAL_REPOS_ROOT: z.string().optional(),
+    // Extracted archive uploads, should point at persistent storage in production
+    ARCHIVE_STORAGE_DIR: z.string().optional(),
+    // Which service embeds summaries, code and questions. Model and dimensions
+    // default to the provider's usual embedding model.
+    EMBEDDING_PROVIDER: z
+      .enum(["gemini", "openai", "ollama"])
+      .default("gemini"),
+    EMBEDDING_MODEL: z.string().optional(),
+    EMBEDDING_DIMENSIONS: z.coerce.number().int().positive().optional(),
+    // Candidates the HNSW index visits per vector search, higher finds more of
+    // the true nearest neighbours but is slower. pgvector's default is 40.
+    VECTOR_SEARCH_EF_SEARCH: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(1000)
+      .default(100),
+    // Any OpenAI-compatible server
+    OPENAI_BASE_URL: z.string().url().default("https://api.openai.com/v1"),
+    OPENAI_API_KEY: z.string().optional(),
+    OLLAMA_BASE_URL: z.string().url().default("http://localhost:11434"),
+    // Chat models as "<provider>/<model>", per task with a shared fallback.
+    // Projects can override them in their settings.
+    LLM_DEFAULT_MODEL: z.string().default("gemini/gemini-1.5-flash"),
+    LLM_COMMIT_SUMMARY_MODEL: z.string().optional(),
+    LLM_CODE_SUMMARY_MODEL: z.string().optional(),
+    LLM_ANSWER_MODEL: z.string().optional(),
+    // Scores retrieved files against the question, a small fast model is enough
+    LLM_RERANK_MODEL: z.string().optional(),
+    // Turns follow-up questions into standalone ones for retrieval
+    LLM_QUERY_REWRITE_MODEL: z.string().optional(),
+    // Tokens of code and summaries given to the answer model per question.
+    // Leave room for the answer within the model's context window.
+    ANSWER_CONTEXT_TOKENS: z.coerce.number().int().min(1000).default(12000),
+    // Where users are sent back to after paying
+    APP_URL: z.string().url().default("http://localhost:3000"),
+    // Buying credits is disabled without a key. Point the API URL at the mock
+    // payment server to test purchases locally.
+    STRIPE_SECRET_KEY: z.string().optional(),
+    STRIPE_API_URL: z.string().url().default("https://api.stripe.com"),
+    // Signs the events sent to /api/webhooks/stripe, which grant credits when
+    // the user doesn't come back from the payment page
+    STRIPE_WEBHOOK_SECRET: z.string().optional(),
+    // Comma-separated Clerk user ids allowed to use the admin page
+    ADMIN_USER_IDS: z.string().optional(),
   },
 
   /**
@@ -29,6 +87,34 @@ export const env = createEnv({
   runtimeEnv: {
     DATABASE_URL: process.env.DATABASE_URL,
     NODE_ENV: process.env.NODE_ENV,
+    GITHUB_TOKEN: process.env.GITHUB_TOKEN,
+    GITLAB_TOKEN: process.env.GITLAB_TOKEN,
+    BITBUCKET_TOKEN: process.env.BITBUCKET_TOKEN,
+    GITEA_TOKEN: process.env.GITEA_TOKEN,
+    GITLAB_URL: process.env.GITLAB_URL,
+    GITEA_URL: process.env.GITEA_URL,
+    GIT_CACHE_DIR: process.env.GIT_CACHE_DIR,
+    LOCAL_REPOS_ROOT: process.env.LOCAL_REPOS_ROOT,
+    ARCHIVE_STORAGE_DIR: process.env.ARCHIVE_STORAGE_DIR,
+    EMBEDDING_PROVIDER: process.env.EMBEDDING_PROVIDER,
+    EMBEDDING_MODEL: process.env.EMBEDDING_MODEL,
+    EMBEDDING_DIMENSIONS: process.env.EMBEDDING_DIMENSIONS,
+    VECTOR_SEARCH_EF_SEARCH: process.env.VECTOR_SEARCH_EF_SEARCH,
+    OPENAI_BASE_URL: process.env.OPENAI_BASE_URL,
+    OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+    OLLAMA_BASE_URL: process.env.OLLAMA_BASE_URL,
+    LLM_DEFAULT_MODEL: process.env.LLM_DEFAULT_MODEL,
+    LLM_COMMIT_SUMMARY_MODEL: process.env.LLM_COMMIT_SUMMARY_MODEL,
+    LLM_CODE_SUMMARY_MODEL: process.env.LLM_CODE_SUMMARY_MODEL,
+    LLM_ANSWER_MODEL: process.env.LLM_ANSWER_MODEL,
+    LLM_RERANK_MODEL: process.env.LLM_RERANK_MODEL,
+    LLM_QUERY_REWRITE_MODEL: process.env.LLM_QUERY_REWRITE_MODEL,
+    ANSWER_CONTEXT_TOKENS: process.env.ANSWER_CONTEXT_TOKENS,
+    APP_URL: process.env.APP_URL,
+    STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY,
+    STRIPE_API_URL: process.env.STRIPE_API_URL,
+    STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET,
+    ADMIN_USER_IDS: process.env.ADMIN_USER_IDS,
     // NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
   },
   /**
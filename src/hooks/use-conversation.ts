@@ -0,0 +1,82 @@
+import { askQuestion } from "@/app/(protected)/dashboard/actions";
+import { type ConversationTurn } from "@/lib/conversation";
+import { api } from "@/trpc/react";
+import { readStreamableValue } from "ai/rsc";
+import React from "react";
+import { toast } from "sonner";
+import useProject from "./use-project";
+
+// The conversation shown in the chat dialog, follow-ups are asked with its id
+const useConversation = () => {
+  const { project } = useProject();
+  const utils = api.useUtils();
+  // A ref so a question asked right after start() goes to the new conversation
+  const conversationId = React.useRef<string | null>(null);
+  const [turns, setTurns] = React.useState<ConversationTurn[]>([]);
+  const [loading, setLoading] = React.useState(false);
+
+  const updateLastTurn = (
+    update: (turn: ConversationTurn) => ConversationTurn,
+  ) =>
+    setTurns((turns) => [
+      ...turns.slice(0, -1),
+      update(turns[turns.length - 1]!),
+    ]);
+
+  const ask = async (question: string) => {
+    if (!project?.id) {
+      toast.error("No project has been selected");
+      return;
+    }
+    const previousConversationId = conversationId.current;
+    setLoading(true);
+    setTurns((turns) => [
+      ...turns,
+      { question, answer: "", filesReferences: [], indexedCommit: null },
+    ]);
+
+    try {
+      const result = await askQuestion(
+        question,
+        project.id,
+        previousConversationId ?? undefined,
+      );
+      if ("error" in result) {
+        toast.error(result.error);
+        setTurns((turns) => turns.slice(0, -1));
+        return;
+      }
+      conversationId.current = result.conversationId;
+      updateLastTurn((turn) => ({
+        ...turn,
+        filesReferences: result.filesReferences,
+        indexedCommit: result.indexedCommit,
+      }));
+      for await (const delta of readStreamableValue(result.output)) {
+        if (delta) {
+          updateLastTurn((turn) => ({ ...turn, answer: turn.answer + delta }));
+        }
+      }
+      // The answer is saved once streamed, show it on the Q&A page
+      void utils.question.invalidate();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to answer the question");
+      setTurns((turns) => turns.slice(0, -1));
+      // A new conversation isn't kept when its first question fails
+      conversationId.current = previousConversationId;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Starts a new conversation, or picks up a saved one
+  const start = (conversation?: { id: string; turns: ConversationTurn[] }) => {
+    conversationId.current = conversation?.id ?? null;
+    setTurns(conversation?.turns ?? []);
+  };
+
+  return { turns, loading, ask, start };
+};
+
+export default useConversation;
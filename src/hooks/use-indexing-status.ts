@@ -0,0 +1,28 @@
+import { api } from "@/trpc/react";
+import useProject from "./use-project";
+
+const POLL_INTERVAL_MS = 2000;
+
+const useIndexingStatus = () => {
+  const { projectId } = useProject();
+  const { data: job } = api.project.getIndexingStatus.useQuery(
+    { projectId },
+    {
+      enabled: !!projectId,
+      // Keep polling only while the job can still make progress
+      refetchInterval: (query) => {
+        const status = query.state.data?.status;
+        return status === "QUEUED" || status === "RUNNING"
+          ? POLL_INTERVAL_MS
+          : false;
+      },
+    },
+  );
+
+  const isIndexing = job?.status === "QUEUED" || job?.status === "RUNNING";
+  return {
+    job,
+    isIndexing,
+  };
+};
+export default useIndexingStatus;
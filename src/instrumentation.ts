@@ -0,0 +1,9 @@
+export async function register() {
+  // The indexing worker needs Prisma, which only runs in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startIndexingWorker } = await import("@/lib/indexing-jobs");
+    await startIndexingWorker();
+    const { backfillSearchVectors } = await import("@/lib/search");
+    void backfillSearchVectors().catch(console.error);
+  }
+}
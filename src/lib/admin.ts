@@ -0,0 +1,12 @@
+import { env } from "@/env";
+
+const adminUserIds = new Set(
+  (env.ADMIN_USER_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean),
+);
+
+export const isAdminUser = (userId: string | null | undefined) => {
+  return !!userId && adminUserIds.has(userId);
+};
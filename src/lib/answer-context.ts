@@ -0,0 +1,235 @@
+import { env } from "@/env";
+import { getEncoding, type Tiktoken } from "js-tiktoken";
+import { type DependencyNeighbour } from "./dependencies";
+import { type SourceCodeResult } from "./search";
+
+// Lines kept either side of a matching chunk when a file is trimmed
+const CONTEXT_LINES = 10;
+// Lines kept around the best match in files without a matching chunk
+const EXCERPT_LINES = 60;
+// Shorter question words are too common to locate anything
+const MIN_TERM_LENGTH = 4;
+
+// 1-based and inclusive, like chunk line numbers
+type LineRange = { start: number; end: number };
+
+type FileContext = {
+  result: SourceCodeResult;
+  lines: string[];
+  // False when not even the summary fit, the file is left out entirely
+  included: boolean;
+  // Parts of the code in the context, empty for summary only
+  ranges: LineRange[];
+  code: string;
+};
+
+export type AnswerContext = {
+  context: string;
+  // What was cut to fit the budget, one line per file
+  omissions: string[];
+  tokens: number;
+};
+
+let encoding: Tiktoken | undefined;
+
+// Each provider tokenizes differently, cl100k is close enough for a budget
+export const countTokens = (text: string) => {
+  encoding ??= getEncoding("cl100k_base");
+  // Code may contain special tokens like <|endoftext|>, count them as text
+  return encoding.encode(text, [], []).length;
+};
+
+const mergeRanges = (ranges: LineRange[], lineCount: number) => {
+  const merged: LineRange[] = [];
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const start = Math.max(1, range.start);
+    const end = Math.min(lineCount, range.end);
+    const last = merged[merged.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = Math.max(last.end, end);
+    } else {
+      merged.push({ start, end });
+    }
+  }
+  return merged;
+};
+
+const isWholeFile = (ranges: LineRange[], lineCount: number) =>
+  ranges.length === 1 && ranges[0]!.start === 1 && ranges[0]!.end >= lineCount;
+
+// Every line is numbered so the answer can cite it
+const formatRanges = (lines: string[], ranges: LineRange[]) =>
+  ranges
+    .map((range) =>
+      lines
+        .slice(range.start - 1, range.end)
+        .map((line, index) => `${range.start + index}| ${line}`)
+        .join("\n"),
+    )
+    .join("\n...\n");
+
+// The line mentioning the most distinct words of the question, or the first
+const findRelevantLine = (lines: string[], question: string) => {
+  const terms = [
+    ...new Set(
+      question
+        .toLowerCase()
+        .split(/[^\w$]+/)
+        .filter((term) => term.length >= MIN_TERM_LENGTH),
+    ),
+  ];
+  let bestLine = 1;
+  let bestMatches = 0;
+  lines.forEach((line, index) => {
+    const lower = line.toLowerCase();
+    const matches = terms.filter((term) => lower.includes(term)).length;
+    if (matches > bestMatches) {
+      bestLine = index + 1;
+      bestMatches = matches;
+    }
+  });
+  return bestLine;
+};
+
+/**
+ * Ways to trim a file around its relevant region, from most to least code.
+ * That's the matching chunks with and without some surrounding lines, then
+ * the best chunk alone. Files found without a chunk are cut around the lines
+ * mentioning the question's words.
+ */
+const trimmedRegions = (file: FileContext, question: string) => {
+  const { chunks } = file.result;
+  const lineCount = file.lines.length;
+  if (chunks.length === 0) {
+    const line = findRelevantLine(file.lines, question);
+    return [EXCERPT_LINES, EXCERPT_LINES / 4].map((size) =>
+      mergeRanges(
+        [{ start: line - size / 2, end: line + size / 2 }],
+        lineCount,
+      ),
+    );
+  }
+  const best = chunks.reduce((a, b) => (b.similarity > a.similarity ? b : a));
+  return [
+    mergeRanges(
+      chunks.map((chunk) => ({
+        start: chunk.startLine - CONTEXT_LINES,
+        end: chunk.endLine + CONTEXT_LINES,
+      })),
+      lineCount,
+    ),
+    mergeRanges(
+      chunks.map((chunk) => ({ start: chunk.startLine, end: chunk.endLine })),
+      lineCount,
+    ),
+    mergeRanges([{ start: best.startLine, end: best.endLine }], lineCount),
+  ];
+};
+
+const describeOmission = (file: FileContext) => {
+  const { fileName } = file.result;
+  if (!file.included) {
+    return `${fileName}: left out entirely`;
+  }
+  if (file.ranges.length === 0) {
+    return `${fileName}: code left out, only its summary is included`;
+  }
+  if (!isWholeFile(file.ranges, file.lines.length)) {
+    const shown = file.ranges
+      .map((range) => `${range.start}-${range.end}`)
+      .join(", ");
+    return `${fileName}: only lines ${shown} of ${file.lines.length} are included`;
+  }
+  return null;
+};
+
+/**
+ * Fills the token budget with the retrieved files, most relevant first within
+ * each pass: every summary, then the matching part of each file trimmed
+ * around its relevant region, then whole files. Summaries of files related by
+ * imports go in with the summaries. Whatever doesn't fit is listed in
+ * omissions for the prompt to mention.
+ */
+export const buildAnswerContext = (
+  question: string,
+  results: SourceCodeResult[],
+  neighbours: DependencyNeighbour[],
+  budget = env.ANSWER_CONTEXT_TOKENS,
+): AnswerContext => {
+  let remaining = budget;
+  const take = (tokens: number) => {
+    if (tokens > remaining) {
+      return false;
+    }
+    remaining -= tokens;
+    return true;
+  };
+
+  const files: FileContext[] = results.map((result) => ({
+    result,
+    lines: result.sourceCode.split("\n"),
+    included: false,
+    ranges: [],
+    code: "",
+  }));
+
+  for (const file of files) {
+    file.included = take(
+      countTokens(
+        `source: ${file.result.fileName}\nsummary of file: ${file.result.summary}\n\n`,
+      ),
+    );
+  }
+  const neighbourBlocks = neighbours.map(
+    (neighbour) =>
+      `related file: ${neighbour.fileName} (${neighbour.relation} ${neighbour.relatedTo})\nsummary of file: ${neighbour.summary}\n\n`,
+  );
+  const includedNeighbours = neighbourBlocks.map((block) =>
+    take(countTokens(block)),
+  );
+
+  const included = files.filter((file) => file.included);
+  for (const file of included) {
+    for (const ranges of trimmedRegions(file, question)) {
+      const code = formatRanges(file.lines, ranges);
+      if (take(countTokens(`code content: ${code}\n`))) {
+        file.ranges = ranges;
+        file.code = code;
+        break;
+      }
+    }
+  }
+
+  for (const file of included) {
+    if (isWholeFile(file.ranges, file.lines.length)) {
+      continue;
+    }
+    const current = file.code ? countTokens(`code content: ${file.code}\n`) : 0;
+    const ranges = [{ start: 1, end: file.lines.length }];
+    const code = formatRanges(file.lines, ranges);
+    if (take(countTokens(`code content: ${code}\n`) - current)) {
+      file.ranges = ranges;
+      file.code = code;
+    }
+  }
+
+  const context =
+    included
+      .map(
+        (file) =>
+          `source: ${file.result.fileName}\n${file.code ? `code content: ${file.code}\n` : ""}summary of file: ${file.result.summary}\n\n`,
+      )
+      .join("") +
+    neighbourBlocks.filter((_, index) => includedNeighbours[index]).join("");
+
+  const omissions = [
+    ...files.map(describeOmission),
+    ...neighbours.map((neighbour, index) =>
+      includedNeighbours[index]
+        ? null
+        : `${neighbour.fileName}: summary of this related file left out`,
+    ),
+  ].filter((omission) => omission !== null);
+
+  return { context, omissions, tokens: budget - remaining };
+};
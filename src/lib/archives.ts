@@ -0,0 +1,209 @@
+import { env } from "@/env";
+import { randomUUID } from "crypto";
+import { Gunzip, unzipSync } from "fflate";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { createPathFilter, EMPTY_PATH_RULES } from "./path-filter";
+
+// Largest upload we accept, keep in sync with serverActions.bodySizeLimit
+export const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+// Guards against zip bombs, counted over every extracted file
+const MAX_EXTRACTED_BYTES = 500 * 1024 * 1024;
+
+const TAR_BLOCK_SIZE = 512;
+const STORAGE_KEY_PATTERN = /^[0-9a-f-]{36}$/;
+
+export const ARCHIVE_EXTENSIONS = [".zip", ".tar.gz", ".tgz"];
+
+export const isSupportedArchive = (fileName: string) => {
+  const name = fileName.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some((extension) => name.endsWith(extension));
+};
+
+export const getArchiveDir = (storageKey: string) => {
+  if (!STORAGE_KEY_PATTERN.test(storageKey)) {
+    throw new Error(`Invalid archive storage key: ${storageKey}`);
+  }
+  const storageDir =
+    env.ARCHIVE_STORAGE_DIR ?? path.join(tmpdir(), "codojo-archives");
+  return path.join(storageDir, storageKey);
+};
+
+/**
+ * Turns an entry name from the archive into a relative path, or null when it
+ * would escape the extraction directory.
+ */
+const toSafePath = (name: string) => {
+  const normalised = path.posix.normalize(
+    name.replace(/\\/g, "/").replace(/^\/+/, ""),
+  );
+  if (
+    normalised === "." ||
+    normalised.startsWith("../") ||
+    normalised === ".." ||
+    normalised.includes("\0")
+  ) {
+    return null;
+  }
+  return normalised;
+};
+
+const readString = (data: Uint8Array, start: number, length: number) => {
+  const bytes = data.subarray(start, start + length);
+  const end = bytes.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end));
+};
+
+const gunzip = (data: Uint8Array) => {
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const stream = new Gunzip((chunk) => {
+    total += chunk.length;
+    if (total > MAX_EXTRACTED_BYTES) {
+      throw new Error("Archive is too large once extracted");
+    }
+    chunks.push(chunk);
+  });
+  stream.push(data, true);
+
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+/**
+ * Reads the regular files out of a ustar/GNU/pax tarball. Links, devices and
+ * other special entries are skipped.
+ */
+const readTar = (data: Uint8Array) => {
+  const files = new Map<string, Uint8Array>();
+  let longName: string | null = null;
+  let offset = 0;
+
+  while (offset + TAR_BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + TAR_BLOCK_SIZE);
+    // The archive ends with empty blocks
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const size = parseInt(readString(header, 124, 12).trim() || "0", 8);
+    const type = String.fromCharCode(header[156] ?? 0);
+    const bodyStart = offset + TAR_BLOCK_SIZE;
+    const body = data.subarray(bodyStart, bodyStart + size);
+    offset = bodyStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    if (type === "L") {
+      // GNU long name, applies to the next entry
+      longName = readString(body, 0, body.length);
+      continue;
+    }
+    if (type === "x") {
+      // pax extended header, made of "<length> key=value\n" records
+      const pathRecord = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(
+        new TextDecoder().decode(body),
+      );
+      longName = pathRecord?.[1] ?? longName;
+      continue;
+    }
+
+    const prefix = readString(header, 345, 155);
+    const name =
+      longName ??
+      (prefix
+        ? `${prefix}/${readString(header, 0, 100)}`
+        : readString(header, 0, 100));
+    longName = null;
+
+    if (type === "0" || type === "\0") {
+      files.set(name, body);
+    }
+  }
+  return files;
+};
+
+const readZip = (data: Uint8Array) => {
+  let declaredBytes = 0;
+  const entries = unzipSync(data, {
+    filter: (file) => {
+      declaredBytes += file.originalSize;
+      if (declaredBytes > MAX_EXTRACTED_BYTES) {
+        throw new Error("Archive is too large once extracted");
+      }
+      return !file.name.endsWith("/");
+    },
+  });
+  return new Map(Object.entries(entries));
+};
+
+/**
+ * GitHub and GitLab downloads wrap everything in a "<repo>-<sha>/" folder,
+ * paths should be relative to the project root instead. Runs on the raw
+ * entry names so a "./" prefix isn't mistaken for a wrapping folder.
+ */
+const stripCommonRoot = (files: Map<string, Uint8Array>) => {
+  const roots = new Set([...files.keys()].map((name) => name.split("/")[0]));
+  const [root] = roots;
+  const allNested = [...files.keys()].every((name) => name.includes("/"));
+  if (roots.size !== 1 || !allNested) {
+    return files;
+  }
+  return new Map(
+    [...files].map(([name, content]) => [
+      name.slice(root!.length + 1),
+      content,
+    ]),
+  );
+};
+
+/**
+ * Unpacks a .zip or .tar.gz upload into memory. Files the indexer always
+ * skips (node_modules, lockfiles, build output) are dropped here already.
+ */
+export const extractArchive = (fileName: string, data: Uint8Array) => {
+  const entries = fileName.toLowerCase().endsWith(".zip")
+    ? readZip(data)
+    : readTar(gunzip(data));
+
+  const isIndexed = createPathFilter(EMPTY_PATH_RULES);
+  const files = new Map<string, Uint8Array>();
+  let total = 0;
+  for (const [name, content] of stripCommonRoot(entries)) {
+    const filePath = toSafePath(name);
+    if (!filePath || !isIndexed(filePath)) {
+      continue;
+    }
+    total += content.length;
+    if (total > MAX_EXTRACTED_BYTES) {
+      throw new Error("Archive is too large once extracted");
+    }
+    files.set(filePath, content);
+  }
+
+  if (files.size === 0) {
+    throw new Error("Archive doesn't contain any files to index");
+  }
+  return files;
+};
+
+// Writes extracted files to a new storage directory and returns its key
+export const storeArchive = async (files: Map<string, Uint8Array>) => {
+  const storageKey = randomUUID();
+  const root = getArchiveDir(storageKey);
+  try {
+    for (const [filePath, content] of files) {
+      const target = path.join(root, filePath);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, content);
+    }
+  } catch (error) {
+    await rm(root, { recursive: true, force: true });
+    throw error;
+  }
+  return storageKey;
+};
@@ -0,0 +1,95 @@
+export type CodeChunk = {
+  content: string;
+  // 1-based and inclusive, so they can be shown to users as-is
+  startLine: number;
+  endLine: number;
+};
+
+// Chunks aim for this many lines and are never allowed to grow past the max
+const TARGET_CHUNK_LINES = 40;
+const MAX_CHUNK_LINES = 120;
+
+// Top-level lines that open a new function, class or declaration in the
+// languages we usually index (JS/TS, Python, Go, Rust, Java, C#, Ruby, ...)
+const DECLARATION_PATTERN =
+  /^(export\s+)?(default\s+)?(declare\s+)?(abstract\s+)?(async\s+)?(pub(\(\w+\))?\s+)?(public\s+|private\s+|protected\s+|internal\s+)?(static\s+)?(final\s+)?(function\*?|class|interface|type|enum|namespace|module|const|let|var|def|fn|func|struct|trait|impl|object|record)\b/;
+
+// Comments and decorators directly above a declaration belong to it
+const LEADING_TRIVIA_PATTERN = /^(\/\/|\/\*|\*|#|@|"""|\s*\*)/;
+
+const isBoundary = (line: string) => DECLARATION_PATTERN.test(line);
+
+/**
+ * Splits a file into chunks along top-level declaration boundaries. Small
+ * neighbouring declarations are merged and oversized ones are split, so every
+ * chunk stays a useful size for embedding.
+ */
+export const chunkCode = (code: string): CodeChunk[] => {
+  const lines = code.split("\n");
+
+  // Index of the first line of every top-level declaration
+  const boundaries = new Set<number>([0]);
+  lines.forEach((line, index) => {
+    if (!isBoundary(line)) {
+      return;
+    }
+    let start = index;
+    while (start > 0 && LEADING_TRIVIA_PATTERN.test(lines[start - 1]!)) {
+      start--;
+    }
+    boundaries.add(start);
+  });
+
+  const starts = [...boundaries].sort((a, b) => a - b);
+  const segments = starts.map((start, index) => ({
+    start,
+    end: (starts[index + 1] ?? lines.length) - 1,
+  }));
+
+  // Merge small neighbours until they reach the target size
+  const merged: { start: number; end: number }[] = [];
+  for (const segment of segments) {
+    const previous = merged[merged.length - 1];
+    if (
+      previous &&
+      previous.end - previous.start + 1 < TARGET_CHUNK_LINES &&
+      segment.end - previous.start + 1 <= MAX_CHUNK_LINES
+    ) {
+      previous.end = segment.end;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  return merged
+    .flatMap((segment) => splitOversized(segment.start, segment.end))
+    .map(({ start, end }) => ({
+      content: lines.slice(start, end + 1).join("\n"),
+      startLine: start + 1,
+      endLine: end + 1,
+    }))
+    .filter((chunk) => chunk.content.trim().length > 0);
+
+  // Cuts long declarations into windows, preferring to break at blank lines
+  function splitOversized(start: number, end: number) {
+    const windows: { start: number; end: number }[] = [];
+    let windowStart = start;
+    while (end - windowStart + 1 > MAX_CHUNK_LINES) {
+      let windowEnd = windowStart + MAX_CHUNK_LINES - 1;
+      for (
+        let candidate = windowEnd;
+        candidate > windowStart + TARGET_CHUNK_LINES;
+        candidate--
+      ) {
+        if (lines[candidate]!.trim() === "") {
+          windowEnd = candidate;
+          break;
+        }
+      }
+      windows.push({ start: windowStart, end: windowEnd });
+      windowStart = windowEnd + 1;
+    }
+    windows.push({ start: windowStart, end });
+    return windows;
+  }
+};
@@ -0,0 +1,42 @@
+// Answers cite code as [src/lib/utils.ts:12-20], or [src/lib/utils.ts:12] for
+// a single line. Models sometimes write the lines as L12-L20, that's allowed.
+const CITATION_PATTERN = /\[([^\[\]\s]+?):L?(\d+)(?:-L?(\d+))?\]/g;
+
+// 1-based and inclusive, like the line numbers in the answer context
+export type Citation = {
+  fileName: string;
+  startLine: number;
+  endLine: number;
+};
+
+export type AnswerPart =
+  | { type: "text"; text: string }
+  | { type: "citation"; text: string; citation: Citation };
+
+// Splits an answer into plain text and the citations in it, in order
+export const parseCitations = (answer: string): AnswerPart[] => {
+  const parts: AnswerPart[] = [];
+  let last = 0;
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    const [text, fileName, start, end] = match;
+    if (match.index > last) {
+      parts.push({ type: "text", text: answer.slice(last, match.index) });
+    }
+    const startLine = Number(start);
+    const endLine = end ? Number(end) : startLine;
+    parts.push({
+      type: "citation",
+      text,
+      citation: {
+        fileName: fileName!,
+        startLine: Math.min(startLine, endLine),
+        endLine: Math.max(startLine, endLine),
+      },
+    });
+    last = match.index + text.length;
+  }
+  if (last < answer.length) {
+    parts.push({ type: "text", text: answer.slice(last) });
+  }
+  return parts;
+};
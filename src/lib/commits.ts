@@ -0,0 +1,391 @@
+import { db } from "@/server/db";
+import { type Document } from "@langchain/core/documents";
+import { Prisma } from "@prisma/client";
+import pLimit from "p-limit";
+import {
+  CREDITS_PER_COMMIT,
+  CREDITS_PER_FILE,
+  deductCredits,
+  refundCredits,
+} from "./credits";
+import { loadPathAliases } from "./dependencies";
+import { getTaskModel } from "./llm-providers";
+import {
+  createPathFilter,
+  IGNORE_FILE_NAME,
+  type PathRules,
+} from "./path-filter";
+import { reindexFiles } from "./repo-loader";
+import {
+  type FileChange,
+  getSourceProvider,
+  type RepoCommit,
+  type SourceProvider,
+} from "./source-providers";
+import { aiSummarizeCommit, COMMIT_SUMMARY_PROMPT_VERSION } from "./summaries";
+
+// Rate limiting configuration
+const MAX_CONCURRENT = 5;
+const COMMITS_PER_PAGE = 10;
+const limit = pLimit(MAX_CONCURRENT);
+
+// Projects being polled by this process. Overlapping polls would summarise and
+// re-index the same commits twice, across processes the unique constraint on
+// Commit stops them.
+const globalForPolls = globalThis as unknown as {
+  pollingProjects: Set<string> | undefined;
+};
+const pollingProjects = (globalForPolls.pollingProjects ??= new Set());
+
+// Who pays for work nobody in particular asked for: the project's first member
+export const getProjectOwnerId = async (projectId: string) => {
+  const member = await db.userToProject.findFirstOrThrow({
+    where: { projectId },
+    orderBy: { createdAt: "asc" },
+    select: { userId: true },
+  });
+  return member.userId;
+};
+
+export async function summariesCommit(
+  provider: SourceProvider,
+  commitHash: string,
+  model: string,
+) {
+  try {
+    const data = await provider.getCommitDiff(commitHash);
+
+    if (!data) {
+      throw new Error("No diff data received");
+    }
+
+    const summary = await aiSummarizeCommit(data, model);
+    if (!summary) {
+      return "No summary available";
+    }
+
+    return summary;
+  } catch (error) {
+    console.error(`Error getting commit summary for ${commitHash}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Summarises and stores new commits, then re-indexes the files they touched.
+ * Commits whose files couldn't be re-indexed by an earlier poll, say for lack
+ * of credits, are retried. The summaries and re-indexed files are charged to
+ * the given user.
+ */
+export const pollCommits = async (projectId: string, userId: string) => {
+  if (pollingProjects.has(projectId)) {
+    return [];
+  }
+  pollingProjects.add(projectId);
+  try {
+    const project = await fetchProjectRepository(projectId);
+    const provider = getSourceProvider(project);
+    // The first poll runs right after a full index, so there is nothing to sync
+    const isInitialPoll =
+      (await db.commit.count({ where: { projectId } })) === 0;
+
+    // Pages back until a stored commit so no pushed files are missed, however
+    // many commits came in since the last poll. The first poll only takes the
+    // newest page.
+    const unprocessedCommits: RepoCommit[] = [];
+    for (let page = 1; ; page++) {
+      const commits = await provider.listCommits(
+        project.branch,
+        COMMITS_PER_PAGE,
+        page,
+      );
+      const unprocessed = await filterUnprocessedCommits(projectId, commits);
+      unprocessedCommits.push(...unprocessed);
+      if (
+        isInitialPoll ||
+        commits.length < COMMITS_PER_PAGE ||
+        unprocessed.length < commits.length
+      ) {
+        break;
+      }
+    }
+
+    if (unprocessedCommits.length === 0) {
+      console.log("No new commits to process");
+      await syncPendingCommits(projectId, userId, provider, project);
+      return [];
+    }
+
+    console.log(`Processing ${unprocessedCommits.length} commits...`);
+    const model = await getTaskModel("commitSummary", projectId);
+
+    // Process commits with rate limiting
+    const summaryResponses = await Promise.all(
+      unprocessedCommits.map((commit) =>
+        limit(async () => {
+          const usage = {
+            operation: "COMMIT_SUMMARY" as const,
+            projectId,
+            description: `Summary of ${commit.commitHash.slice(0, 7)}`,
+          };
+          try {
+            // Commits that can't be paid for are picked up by a later poll
+            await deductCredits(userId, CREDITS_PER_COMMIT, usage);
+            const summary = await summariesCommit(
+              provider,
+              commit.commitHash,
+              model,
+            );
+            if (summary === null) {
+              await refundCredits(userId, CREDITS_PER_COMMIT, usage);
+            }
+            console.log(`Successfully processed commit ${commit.commitHash}`);
+            return {
+              ...commit,
+              summary: summary ?? "Error generating summary",
+              // Failed summaries stay unversioned so they get regenerated
+              summaryPromptVersion:
+                summary !== null ? COMMIT_SUMMARY_PROMPT_VERSION : null,
+              summaryModel: summary !== null ? model : null,
+              usage: summary !== null ? usage : null,
+            };
+          } catch (error) {
+            console.error(
+              `Failed to process commit ${commit.commitHash}:`,
+              error,
+            );
+            return null;
+          }
+        }),
+      ),
+    );
+
+    // Filter out failed summaries
+    const validSummaries = summaryResponses.filter(
+      (summary): summary is NonNullable<typeof summary> => summary !== null,
+    );
+
+    // Process in smaller batches
+    const batchSize = 3;
+    const results = [];
+
+    for (let i = 0; i < validSummaries.length; i += batchSize) {
+      const batch = validSummaries.slice(i, i + batchSize);
+
+      // Create commits one at a time to avoid database issues
+      for (const summary of batch) {
+        try {
+          const commit = await db.commit.create({
+            data: {
+              projectId,
+              commitHash: summary.commitHash,
+              commitMessage: summary.commitMessage,
+              commitAuthorName: summary.commitAuthorName,
+              commitAuthorAvatar: summary.commitAuthorAvatar,
+              commitDate: new Date(summary.commitDate),
+              summary: summary.summary,
+              summaryPromptVersion: summary.summaryPromptVersion,
+              summaryModel: summary.summaryModel,
+              syncedAt: isInitialPoll ? new Date() : null,
+            },
+          });
+          results.push(commit);
+          console.log(`Stored commit ${commit.commitHash}`);
+        } catch (error) {
+          if (
+            error instanceof Prisma.PrismaClientKnownRequestError &&
+            error.code === "P2002"
+          ) {
+            // Another poll stored it first and paid for its summary
+            console.log(`Commit ${summary.commitHash} was already stored`);
+          } else {
+            console.error(
+              `Failed to store commit ${summary.commitHash}:`,
+              error,
+            );
+          }
+          if (summary.usage) {
+            await refundCredits(userId, CREDITS_PER_COMMIT, summary.usage);
+          }
+        }
+      }
+
+      // Add a small delay between batches
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+
+    await syncPendingCommits(projectId, userId, provider, project);
+    return results;
+  } catch (error) {
+    console.error("Error in pollCommits:", error);
+    throw error;
+  } finally {
+    pollingProjects.delete(projectId);
+  }
+};
+
+// Combines the project's globs with the repository's .codojoignore, if any
+export const getPathRules = async (
+  provider: SourceProvider,
+  branch: string,
+  project: { includeGlobs: string[]; excludeGlobs: string[] },
+): Promise<PathRules> => {
+  const ignoreFile = await provider.readFile(IGNORE_FILE_NAME, branch);
+  return {
+    include: project.includeGlobs,
+    exclude: project.excludeGlobs,
+    ignoreFile: ignoreFile ?? undefined,
+  };
+};
+
+const syncPendingCommits = async (
+  projectId: string,
+  userId: string,
+  provider: SourceProvider,
+  project: Awaited<ReturnType<typeof fetchProjectRepository>>,
+) => {
+  const pending = await db.commit.findMany({
+    where: { projectId, syncedAt: null },
+    select: { id: true, commitHash: true, commitDate: true },
+  });
+  if (pending.length > 0) {
+    const rules = await getPathRules(provider, project.branch, project);
+    await syncChangedFiles(projectId, userId, provider, pending, rules);
+  }
+};
+
+/**
+ * Brings the embeddings in line with the given commits. Changes are replayed
+ * oldest first so the last status of every file wins, and file contents are
+ * read at the newest commit. The commits are marked synced once done, a
+ * failure is kept on the project for the indexing status to show.
+ */
+async function syncChangedFiles(
+  projectId: string,
+  userId: string,
+  provider: SourceProvider,
+  commits: { id: string; commitHash: string; commitDate: Date }[],
+  rules: PathRules,
+) {
+  try {
+    const isIndexed = createPathFilter(rules);
+    const orderedCommits = [...commits].sort(
+      (a, b) => a.commitDate.getTime() - b.commitDate.getTime(),
+    );
+    const headCommit = orderedCommits[orderedCommits.length - 1]!;
+
+    const fileStatuses = new Map<string, FileChange["status"]>();
+    for (const commit of orderedCommits) {
+      const changes = await provider.getCommitFileChanges(commit.commitHash);
+      for (const change of changes) {
+        if (isIndexed(change.path)) {
+          fileStatuses.set(change.path, change.status);
+        }
+      }
+    }
+
+    const deletedFiles: string[] = [];
+    const changedFiles: string[] = [];
+    for (const [path, status] of fileStatuses) {
+      (status === "deleted" ? deletedFiles : changedFiles).push(path);
+    }
+
+    const changedDocs = await Promise.all(
+      changedFiles.map((path) =>
+        limit(async (): Promise<Document | null> => {
+          try {
+            const pageContent = await provider.readFile(
+              path,
+              headCommit.commitHash,
+            );
+            if (pageContent === null) {
+              deletedFiles.push(path);
+              return null;
+            }
+            return { pageContent, metadata: { source: path } };
+          } catch (error) {
+            console.error(`Failed to fetch ${path}:`, error);
+            return null;
+          }
+        }),
+      ),
+    );
+
+    const docs = changedDocs.filter((doc): doc is Document => doc !== null);
+    const cost = docs.length * CREDITS_PER_FILE;
+    const usage = {
+      operation: "INDEXING" as const,
+      projectId,
+      description: `Re-indexing ${docs.length} changed files`,
+    };
+    await deductCredits(userId, cost, usage);
+    try {
+      const failedFiles = await reindexFiles(
+        projectId,
+        docs,
+        deletedFiles,
+        await loadPathAliases(provider, headCommit.commitHash),
+      );
+      await refundCredits(userId, failedFiles * CREDITS_PER_FILE, usage);
+      await db.$transaction([
+        db.commit.updateMany({
+          where: { id: { in: commits.map((commit) => commit.id) } },
+          data: { syncedAt: new Date() },
+        }),
+        db.project.update({
+          where: { id: projectId },
+          data: { indexedCommit: headCommit.commitHash, syncError: null },
+        }),
+      ]);
+    } catch (error) {
+      await refundCredits(userId, cost, usage);
+      throw error;
+    }
+  } catch (error) {
+    console.error(`Failed to re-index files for project ${projectId}:`, error);
+    await db.project
+      .update({
+        where: { id: projectId },
+        data: {
+          syncError: error instanceof Error ? error.message : String(error),
+        },
+      })
+      .catch(console.error);
+  }
+}
+
+async function fetchProjectRepository(projectId: string) {
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: {
+      repoUrl: true,
+      provider: true,
+      branch: true,
+      includeGlobs: true,
+      excludeGlobs: true,
+    },
+  });
+
+  if (!project) {
+    throw new Error(`Project with ID ${projectId} not found.`);
+  }
+
+  return project;
+}
+
+async function filterUnprocessedCommits(
+  projectId: string,
+  commitHashes: RepoCommit[],
+) {
+  const processedCommits = await db.commit.findMany({
+    where: { projectId },
+    select: { commitHash: true },
+  });
+
+  const processedHashes = new Set(
+    processedCommits.map((commit) => commit.commitHash),
+  );
+  return commitHashes.filter(
+    (commit) => !processedHashes.has(commit.commitHash),
+  );
+}
@@ -0,0 +1,85 @@
+import { generateText, getTaskModel } from "./llm-providers";
+import { type SourceCodeResult } from "./search";
+
+// Earlier turns given to the model, older ones rarely matter to a follow-up
+const MAX_HISTORY_TURNS = 6;
+// Answers are cut to this many characters in the history
+const MAX_HISTORY_ANSWER_LENGTH = 600;
+// Files referenced earlier that are searched again alongside new results
+const MAX_EARLIER_FILES = 5;
+const MAX_TITLE_LENGTH = 100;
+
+export type ConversationTurn = {
+  question: string;
+  answer: string;
+  filesReferences: SourceCodeResult[];
+  // The commit the cited lines are from, null when the project has none
+  indexedCommit: string | null;
+};
+
+export const conversationTitle = (question: string) =>
+  question.length > MAX_TITLE_LENGTH
+    ? `${question.slice(0, MAX_TITLE_LENGTH - 3).trimEnd()}...`
+    : question;
+
+/**
+ * The last few turns with long answers cut short. Enough for the model to
+ * resolve "that" or "it" in a follow-up without repeating whole answers.
+ */
+export const formatHistory = (turns: ConversationTurn[]) =>
+  turns
+    .slice(-MAX_HISTORY_TURNS)
+    .map((turn) => {
+      const answer =
+        turn.answer.length > MAX_HISTORY_ANSWER_LENGTH
+          ? `${turn.answer.slice(0, MAX_HISTORY_ANSWER_LENGTH)}...`
+          : turn.answer;
+      const files = turn.filesReferences.map((file) => file.fileName);
+      return `Question: ${turn.question}\nAnswer: ${answer}${
+        files.length > 0 ? `\nFiles: ${files.join(", ")}` : ""
+      }`;
+    })
+    .join("\n\n");
+
+// Files the latest turns were answered from, most recent first
+export const getEarlierFiles = (turns: ConversationTurn[]) => {
+  const fileNames = new Set<string>();
+  for (const turn of [...turns].reverse()) {
+    for (const file of turn.filesReferences) {
+      fileNames.add(file.fileName);
+    }
+  }
+  return [...fileNames].slice(0, MAX_EARLIER_FILES);
+};
+
+/**
+ * Rewrites a follow-up as a question that stands on its own, so retrieval
+ * searches for what "that" referred to. The follow-up is used as it is when
+ * there's no history or the rewrite fails.
+ */
+export const rewriteQuestion = async (
+  question: string,
+  turns: ConversationTurn[],
+  projectId: string,
+) => {
+  if (turns.length === 0) {
+    return question;
+  }
+  try {
+    const model = await getTaskModel("queryRewrite", projectId);
+    const rewritten = await generateText(model, {
+      system:
+        "You rewrite follow-up questions about a codebase so they can be understood without the conversation. You reply with the rewritten question only.",
+      prompt: `Conversation so far:
+${formatHistory(turns)}
+
+Follow-up question: ${question}
+
+Rewrite the follow-up as a standalone question. Replace references like "it", "that" or "this file" with the names of the files, functions or concepts they refer to. Keep identifiers exactly as written.`,
+    });
+    return rewritten.trim() || question;
+  } catch (error) {
+    console.error("Failed to rewrite the follow-up question:", error);
+    return question;
+  }
+};
@@ -0,0 +1,167 @@
+import { db } from "@/server/db";
+import {
+  type CreditOperation,
+  type CreditTransactionType,
+  Prisma,
+} from "@prisma/client";
+
+// What each unit of work costs
+export const CREDITS_PER_FILE = 1;
+export const CREDITS_PER_COMMIT = 1;
+export const CREDITS_PER_QUESTION = 1;
+// Granted once, when the user first signs in
+export const SIGN_UP_CREDITS = 150;
+
+export const CREDIT_PACKS = [
+  { id: "starter", credits: 500, priceCents: 500 },
+  { id: "team", credits: 2500, priceCents: 2000 },
+  { id: "scale", credits: 10000, priceCents: 7000 },
+] as const;
+
+export type CreditPack = (typeof CREDIT_PACKS)[number];
+
+export class InsufficientCreditsError extends Error {
+  constructor(
+    public readonly required: number,
+    public readonly available: number,
+  ) {
+    super(
+      `This needs ${required} credits, but you only have ${available} left`,
+    );
+    this.name = "InsufficientCreditsError";
+  }
+}
+
+// What spent or refunded credits were used for
+export type CreditUsage = {
+  operation: CreditOperation;
+  projectId: string;
+  description?: string;
+};
+
+// Lets the helpers below take part in a caller's transaction
+type DbClient = Prisma.TransactionClient | typeof db;
+
+const inTransaction = <T>(
+  client: DbClient,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+) => {
+  return "$transaction" in client ? client.$transaction(fn) : fn(client);
+};
+
+// Must run in the same transaction as the balance change it records
+const recordTransaction = async (
+  tx: Prisma.TransactionClient,
+  userId: string,
+  entry: {
+    type: CreditTransactionType;
+    amount: number;
+    operation?: CreditOperation;
+    projectId?: string;
+    description?: string;
+    paymentId?: string;
+  },
+) => {
+  const { credits } = await tx.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { credits: true },
+  });
+  await tx.creditTransaction.create({
+    data: { ...entry, userId, balanceAfter: credits },
+  });
+};
+
+export const getCredits = async (userId: string, client: DbClient = db) => {
+  const user = await client.user.findUnique({
+    where: { id: userId },
+    select: { credits: true },
+  });
+  return user?.credits ?? 0;
+};
+
+/**
+ * Takes credits from the user, or throws InsufficientCreditsError without
+ * touching the balance. Checking and decrementing happen in one statement, so
+ * concurrent requests can't overdraw the account.
+ */
+export const deductCredits = async (
+  userId: string,
+  amount: number,
+  usage: CreditUsage,
+  client: DbClient = db,
+) => {
+  if (amount <= 0) {
+    return;
+  }
+  await inTransaction(client, async (tx) => {
+    const { count } = await tx.user.updateMany({
+      where: { id: userId, credits: { gte: amount } },
+      data: { credits: { decrement: amount } },
+    });
+    if (count === 0) {
+      throw new InsufficientCreditsError(amount, await getCredits(userId, tx));
+    }
+    await recordTransaction(tx, userId, {
+      type: "SPEND",
+      amount: -amount,
+      ...usage,
+    });
+  });
+};
+
+// Gives back credits for work that was paid for but failed
+export const refundCredits = async (
+  userId: string,
+  amount: number,
+  usage: CreditUsage,
+  client: DbClient = db,
+) => {
+  if (amount <= 0) {
+    return;
+  }
+  await inTransaction(client, async (tx) => {
+    await tx.user.update({
+      where: { id: userId },
+      data: { credits: { increment: amount } },
+    });
+    await recordTransaction(tx, userId, {
+      type: "REFUND",
+      amount,
+      ...usage,
+    });
+  });
+};
+
+/**
+ * Adds bought credits. The checkout is stored with the transaction, so a
+ * checkout confirmed twice is only paid out once. Returns false in that case.
+ */
+export const addPurchasedCredits = async (
+  userId: string,
+  amount: number,
+  paymentId: string,
+) => {
+  try {
+    await db.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: { credits: { increment: amount } },
+      });
+      await recordTransaction(tx, userId, {
+        type: "PURCHASE",
+        amount,
+        paymentId,
+        description: `Bought ${amount} credits`,
+      });
+    });
+    return true;
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return false;
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,313 @@
+import { db } from "@/server/db";
+import { type Document } from "@langchain/core/documents";
+import { type Prisma } from "@prisma/client";
+import path from "path";
+import { type SourceProvider } from "./source-providers";
+
+// Files whose import and require statements we understand
+const SOURCE_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+];
+// Tried in order when an import leaves out the extension
+const RESOLVE_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".d.ts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+  ".json",
+];
+// ESM TypeScript imports "./file.js" for what is "./file.ts" on disk
+const COMPILED_EXTENSIONS: Record<string, string[]> = {
+  ".js": [".ts", ".tsx"],
+  ".jsx": [".tsx"],
+  ".mjs": [".mts"],
+  ".cjs": [".cts"],
+};
+
+const IMPORT_PATTERNS = [
+  // import x from "a", import { x } from "a", import "a", export * from "a"
+  /\b(?:import|export)\s+(?:type\s+)?(?:[\w*${}\s,]+?\s+from\s+)?["']([^"'\n]+)["']/g,
+  /\brequire\s*\(\s*["']([^"'\n]+)["']\s*\)/g,
+  /\bimport\s*\(\s*["']([^"'\n]+)["']\s*\)/g,
+];
+
+const CONFIG_FILES = ["tsconfig.json", "jsconfig.json"];
+
+// "compilerOptions.paths" from the repository's tsconfig, relative to its root
+export type PathAliases = {
+  baseUrl: string | null;
+  paths: { pattern: string; targets: string[] }[];
+};
+
+export const EMPTY_PATH_ALIASES: PathAliases = { baseUrl: null, paths: [] };
+
+// Relation of a neighbouring file to the retrieved file it was found through
+export type DependencyNeighbour = {
+  fileName: string;
+  summary: string;
+  relation: "imported by" | "imports";
+  relatedTo: string;
+};
+
+/**
+ * tsconfig files allow comments and trailing commas, so they are stripped
+ * before parsing. Strings are copied as-is since "@/*" looks like a comment.
+ */
+const parseJsonc = (text: string): unknown => {
+  let output = "";
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (char === '"') {
+      const start = i;
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === "\\") {
+          i++;
+        }
+      }
+      output += text.slice(start, i + 1);
+    } else if (char === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") {
+        i++;
+      }
+      output += "\n";
+    } else if (char === "/" && text[i + 1] === "*") {
+      i = text.indexOf("*/", i + 2);
+      if (i === -1) {
+        break;
+      }
+      i++;
+    } else {
+      output += char;
+    }
+  }
+  return JSON.parse(output.replace(/,(\s*[}\]])/g, "$1"));
+};
+
+export const loadPathAliases = async (
+  provider: SourceProvider,
+  ref: string,
+): Promise<PathAliases> => {
+  for (const configFile of CONFIG_FILES) {
+    try {
+      const content = await provider.readFile(configFile, ref);
+      if (content === null) {
+        continue;
+      }
+      const config = parseJsonc(content) as {
+        compilerOptions?: {
+          baseUrl?: string;
+          paths?: Record<string, string[]>;
+        };
+      };
+      const { baseUrl, paths = {} } = config.compilerOptions ?? {};
+      return {
+        baseUrl: baseUrl ? path.posix.normalize(baseUrl) : null,
+        paths: Object.entries(paths).map(([pattern, targets]) => ({
+          pattern,
+          targets,
+        })),
+      };
+    } catch (error) {
+      console.error(`Failed to read path aliases from ${configFile}:`, error);
+    }
+  }
+  return EMPTY_PATH_ALIASES;
+};
+
+export const parseImports = (code: string) => {
+  const specifiers = new Set<string>();
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of code.matchAll(pattern)) {
+      specifiers.add(match[1]!);
+    }
+  }
+  return [...specifiers];
+};
+
+// Finds the indexed file a repository-relative path without extension refers to
+const resolveFile = (base: string, files: Set<string>) => {
+  const normalised = path.posix.normalize(base);
+  if (normalised.startsWith("../")) {
+    return null;
+  }
+
+  const extension = path.posix.extname(normalised);
+  const candidates = [
+    normalised,
+    ...(COMPILED_EXTENSIONS[extension] ?? []).map(
+      (compiled) => normalised.slice(0, -extension.length) + compiled,
+    ),
+    ...RESOLVE_EXTENSIONS.map((ext) => normalised + ext),
+    ...RESOLVE_EXTENSIONS.map((ext) => `${normalised}/index${ext}`),
+  ];
+  return candidates.find((candidate) => files.has(candidate)) ?? null;
+};
+
+/**
+ * Resolves an import specifier the way the TypeScript compiler would for
+ * relative paths and tsconfig aliases. Package imports resolve to null.
+ */
+export const resolveImport = (
+  fromFile: string,
+  specifier: string,
+  files: Set<string>,
+  aliases: PathAliases,
+) => {
+  if (specifier.startsWith("./") || specifier.startsWith("../")) {
+    return resolveFile(
+      path.posix.join(path.posix.dirname(fromFile), specifier),
+      files,
+    );
+  }
+
+  // Targets are relative to baseUrl, or to the tsconfig itself without one
+  const root = aliases.baseUrl ?? ".";
+  for (const { pattern, targets } of aliases.paths) {
+    const [prefix, suffix = ""] = pattern.split("*");
+    const hasWildcard = pattern.includes("*");
+    const matches = hasWildcard
+      ? specifier.startsWith(prefix!) && specifier.endsWith(suffix)
+      : specifier === pattern;
+    if (!matches) {
+      continue;
+    }
+    const wildcard = hasWildcard
+      ? specifier.slice(prefix!.length, specifier.length - suffix.length)
+      : "";
+    for (const target of targets) {
+      const resolved = resolveFile(
+        path.posix.join(root, target.replace("*", wildcard)),
+        files,
+      );
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+
+  if (aliases.baseUrl) {
+    return resolveFile(path.posix.join(aliases.baseUrl, specifier), files);
+  }
+  return null;
+};
+
+/**
+ * Stores the import edges of the given files. Edges hang off the importing
+ * file's embedding row, so re-indexing a file replaces its edges. Call this
+ * after the files' embeddings have been saved.
+ */
+export const saveFileDependencies = async (
+  projectId: string,
+  docs: Document[],
+  aliases: PathAliases,
+  client: Prisma.TransactionClient = db,
+) => {
+  const rows = await client.sourceCodeEmbedding.findMany({
+    where: { projectId },
+    select: { id: true, fileName: true },
+  });
+  const files = new Set(rows.map((row) => row.fileName));
+  const rowIds = new Map(rows.map((row) => [row.fileName, row.id]));
+
+  const edges = docs.flatMap((doc) => {
+    const fromFile = doc.metadata.source as string;
+    const sourceCodeEmbeddingId = rowIds.get(fromFile);
+    if (
+      !sourceCodeEmbeddingId ||
+      !SOURCE_EXTENSIONS.includes(path.posix.extname(fromFile))
+    ) {
+      return [];
+    }
+    const targets = new Set(
+      parseImports(doc.pageContent)
+        .map((specifier) => resolveImport(fromFile, specifier, files, aliases))
+        .filter((toFile): toFile is string => !!toFile && toFile !== fromFile),
+    );
+    return [...targets].map((toFile) => ({
+      fromFile,
+      toFile,
+      sourceCodeEmbeddingId,
+      projectId,
+    }));
+  });
+
+  if (edges.length > 0) {
+    await client.fileDependency.createMany({
+      data: edges,
+      skipDuplicates: true,
+    });
+  }
+  console.log(`Stored ${edges.length} import edges for ${docs.length} files`);
+};
+
+/**
+ * Files directly importing or imported by the given ones, excluding those
+ * files themselves, in the order of the files they were found through.
+ */
+export const getDependencyNeighbours = async (
+  projectId: string,
+  fileNames: string[],
+  limit: number,
+): Promise<DependencyNeighbour[]> => {
+  if (fileNames.length === 0) {
+    return [];
+  }
+  const edges = await db.fileDependency.findMany({
+    where: {
+      projectId,
+      OR: [{ fromFile: { in: fileNames } }, { toFile: { in: fileNames } }],
+    },
+    select: { fromFile: true, toFile: true },
+  });
+
+  const excluded = new Set(fileNames);
+  const neighbours = new Map<string, Omit<DependencyNeighbour, "summary">>();
+  for (const fileName of fileNames) {
+    for (const edge of edges) {
+      const neighbour =
+        edge.fromFile === fileName
+          ? { fileName: edge.toFile, relation: "imported by" as const }
+          : edge.toFile === fileName
+            ? { fileName: edge.fromFile, relation: "imports" as const }
+            : null;
+      if (
+        neighbour &&
+        !excluded.has(neighbour.fileName) &&
+        !neighbours.has(neighbour.fileName)
+      ) {
+        neighbours.set(neighbour.fileName, {
+          ...neighbour,
+          relatedTo: fileName,
+        });
+      }
+    }
+  }
+
+  const selected = [...neighbours.values()].slice(0, limit);
+  const summaries = await db.sourceCodeEmbedding.findMany({
+    where: {
+      projectId,
+      fileName: { in: selected.map((neighbour) => neighbour.fileName) },
+    },
+    select: { fileName: true, summary: true },
+  });
+  const summaryByFile = new Map(
+    summaries.map((row) => [row.fileName, row.summary]),
+  );
+  return selected
+    .filter((neighbour) => summaryByFile.has(neighbour.fileName))
+    .map((neighbour) => ({
+      ...neighbour,
+      summary: summaryByFile.get(neighbour.fileName)!,
+    }));
+};
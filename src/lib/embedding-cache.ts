@@ -0,0 +1,55 @@
+import { db } from "@/server/db";
+import { createHash } from "crypto";
+
+type CacheEntry = {
+  summary: string | null;
+  embedding: number[];
+};
+
+export const hashContent = (...parts: string[]) => {
+  const hash = createHash("sha256");
+  for (const part of parts) {
+    // Length-prefix every part so ("ab", "c") and ("a", "bc") never collide
+    hash.update(`${part.length}:${part}`);
+  }
+  return hash.digest("hex");
+};
+
+export const getCachedEntries = async (hashes: string[]) => {
+  const entries = new Map<string, CacheEntry>();
+  if (hashes.length === 0) {
+    return entries;
+  }
+
+  const rows = await db.$queryRaw<
+    { hash: string; summary: string | null; embedding: string }[]
+  >`
+    SELECT "hash", "summary", "embedding"::text AS "embedding"
+    FROM "EmbeddingCache"
+    WHERE "hash" = ANY(${hashes}) AND "embedding" IS NOT NULL
+  `;
+  for (const row of rows) {
+    entries.set(row.hash, {
+      summary: row.summary,
+      embedding: JSON.parse(row.embedding) as number[],
+    });
+  }
+  return entries;
+};
+
+export const setCachedEntry = async (
+  hash: string,
+  embedding: number[],
+  summary?: string,
+) => {
+  try {
+    await db.$executeRaw`
+      INSERT INTO "EmbeddingCache" ("hash", "summary", "embedding")
+      VALUES (${hash}, ${summary ?? null}, ${embedding}::vector)
+      ON CONFLICT ("hash") DO NOTHING
+    `;
+  } catch (error) {
+    // A cache miss next time is cheaper than failing the indexing run
+    console.error(`Failed to cache entry ${hash}:`, error);
+  }
+};
@@ -0,0 +1,33 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { type EmbeddingProvider } from "./types";
+
+// The embedding API accepts at most 100 texts per batch request
+const EMBEDDING_BATCH_SIZE = 100;
+
+export const createGeminiEmbeddingProvider = (
+  model: string,
+  dimensions: number,
+): EmbeddingProvider => {
+  const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+  const embeddingModel = genAI.getGenerativeModel({ model });
+
+  return {
+    model: `gemini/${model}`,
+    dimensions,
+
+    embed: async (texts) => {
+      const embeddings: number[][] = [];
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const result = await embeddingModel.batchEmbedContents({
+          requests: texts.slice(i, i + EMBEDDING_BATCH_SIZE).map((text) => ({
+            content: { role: "user", parts: [{ text }] },
+          })),
+        });
+        embeddings.push(
+          ...result.embeddings.map((embedding) => embedding.values),
+        );
+      }
+      return embeddings;
+    },
+  };
+};
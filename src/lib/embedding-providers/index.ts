@@ -0,0 +1,81 @@
+import { env } from "@/env";
+import { createGeminiEmbeddingProvider } from "./gemini";
+import { createOllamaEmbeddingProvider } from "./ollama";
+import { createOpenAIEmbeddingProvider } from "./openai";
+import { type EmbeddingProvider } from "./types";
+
+export type { EmbeddingProvider } from "./types";
+
+// Used when EMBEDDING_MODEL / EMBEDDING_DIMENSIONS aren't set
+const DEFAULT_MODELS = {
+  gemini: { model: "text-embedding-004", dimensions: 768 },
+  openai: { model: "text-embedding-3-small", dimensions: 1536 },
+  ollama: { model: "nomic-embed-text", dimensions: 768 },
+};
+
+// Vectors of the wrong size would fail on insert, or worse, compare as garbage
+const withDimensionCheck = (
+  provider: EmbeddingProvider,
+): EmbeddingProvider => ({
+  ...provider,
+  embed: async (texts) => {
+    if (texts.length === 0) {
+      return [];
+    }
+    const embeddings = await provider.embed(texts);
+    if (embeddings.length !== texts.length) {
+      throw new Error(
+        `${provider.model} returned ${embeddings.length} embeddings for ${texts.length} texts`,
+      );
+    }
+    const mismatch = embeddings.find(
+      (embedding) => embedding.length !== provider.dimensions,
+    );
+    if (mismatch) {
+      throw new Error(
+        `${provider.model} returned ${mismatch.length} dimensions, expected ${provider.dimensions}`,
+      );
+    }
+    return embeddings;
+  },
+});
+
+const createEmbeddingProvider = (): EmbeddingProvider => {
+  const defaults = DEFAULT_MODELS[env.EMBEDDING_PROVIDER];
+  const model = env.EMBEDDING_MODEL ?? defaults.model;
+  const dimensions = env.EMBEDDING_DIMENSIONS ?? defaults.dimensions;
+
+  switch (env.EMBEDDING_PROVIDER) {
+    case "gemini":
+      return createGeminiEmbeddingProvider(model, dimensions);
+    case "openai":
+      return createOpenAIEmbeddingProvider(model, dimensions, {
+        baseUrl: env.OPENAI_BASE_URL,
+        apiKey: env.OPENAI_API_KEY,
+        requestDimensions: env.EMBEDDING_DIMENSIONS !== undefined,
+      });
+    case "ollama":
+      return createOllamaEmbeddingProvider(
+        model,
+        dimensions,
+        env.OLLAMA_BASE_URL,
+      );
+  }
+};
+
+let provider: EmbeddingProvider | undefined;
+
+// The configured provider, every embedding in the app goes through it
+export const getEmbeddingProvider = () => {
+  provider ??= withDimensionCheck(createEmbeddingProvider());
+  return provider;
+};
+
+export const generateEmbedding = async (text: string) => {
+  const [embedding] = await getEmbeddingProvider().embed([text]);
+  return embedding!;
+};
+
+export const generateEmbeddingsBatch = (texts: string[]) => {
+  return getEmbeddingProvider().embed(texts);
+};
@@ -0,0 +1,31 @@
+import axios from "axios";
+import { type EmbeddingProvider } from "./types";
+
+// Local servers are slow per request, but large batches can run out of memory
+const EMBEDDING_BATCH_SIZE = 32;
+
+// A local Ollama server, or anything else speaking its /api/embed endpoint
+export const createOllamaEmbeddingProvider = (
+  model: string,
+  dimensions: number,
+  baseUrl: string,
+): EmbeddingProvider => {
+  const api = axios.create({ baseURL: baseUrl });
+
+  return {
+    model: `ollama/${model}`,
+    dimensions,
+
+    embed: async (texts) => {
+      const embeddings: number[][] = [];
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const { data } = await api.post<{ embeddings: number[][] }>(
+          "/api/embed",
+          { model, input: texts.slice(i, i + EMBEDDING_BATCH_SIZE) },
+        );
+        embeddings.push(...data.embeddings);
+      }
+      return embeddings;
+    },
+  };
+};
@@ -0,0 +1,55 @@
+import axios from "axios";
+import { withRetry } from "../source-providers/utils";
+import { type EmbeddingProvider } from "./types";
+
+const EMBEDDING_BATCH_SIZE = 100;
+
+type EmbeddingsResponse = {
+  data: { embedding: number[]; index: number }[];
+};
+
+/**
+ * Any server implementing OpenAI's /embeddings endpoint: OpenAI itself, Azure
+ * deployments behind a proxy, vLLM, LM Studio, LiteLLM and so on.
+ */
+export const createOpenAIEmbeddingProvider = (
+  model: string,
+  dimensions: number,
+  options: {
+    baseUrl: string;
+    apiKey?: string;
+    // Only sent when configured, many compatible servers reject it
+    requestDimensions: boolean;
+  },
+): EmbeddingProvider => {
+  const api = axios.create({
+    baseURL: options.baseUrl,
+    headers: options.apiKey
+      ? { Authorization: `Bearer ${options.apiKey}` }
+      : {},
+  });
+
+  return {
+    model: `openai/${model}`,
+    dimensions,
+
+    embed: async (texts) => {
+      const embeddings: number[][] = [];
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const { data } = await withRetry(() =>
+          api.post<EmbeddingsResponse>("/embeddings", {
+            model,
+            input: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+            ...(options.requestDimensions ? { dimensions } : {}),
+          }),
+        );
+        embeddings.push(
+          ...data.data
+            .sort((a, b) => a.index - b.index)
+            .map((item) => item.embedding),
+        );
+      }
+      return embeddings;
+    },
+  };
+};
@@ -0,0 +1,7 @@
+export interface EmbeddingProvider {
+  // Stored with every vector, vectors from different models never compare
+  model: string;
+  dimensions: number;
+  // One vector per text, in the same order
+  embed(texts: string[]): Promise<number[][]>;
+}
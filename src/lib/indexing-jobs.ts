@@ -0,0 +1,266 @@
+import { db } from "@/server/db";
+import { type IndexingJob } from "@prisma/client";
+import { getPathRules, getProjectOwnerId, pollCommits } from "./commits";
+import { CREDITS_PER_FILE, deductCredits, refundCredits } from "./credits";
+import { indexRepository, type IndexingProgress } from "./repo-loader";
+import { getSourceProvider } from "./source-providers";
+
+// Jobs run one at a time so a large repo can't starve the API rate limits
+const globalForWorker = globalThis as unknown as {
+  indexingWorkerRunning: boolean | undefined;
+};
+
+export const enqueueIndexingJob = async (
+  projectId: string,
+  userId: string,
+  accessToken?: string,
+) => {
+  const job = await db.indexingJob.create({
+    data: {
+      projectId,
+      userId,
+      accessToken,
+    },
+  });
+  void drainIndexingQueue();
+  return job;
+};
+
+/**
+ * Called once when the server boots. Jobs that were running when the previous
+ * process died are queued again and the queue is drained in the background.
+ */
+export const startIndexingWorker = async () => {
+  const { count } = await db.indexingJob.updateMany({
+    where: { status: "RUNNING" },
+    data: { status: "QUEUED" },
+  });
+  if (count > 0) {
+    console.log(`Re-queued ${count} interrupted indexing jobs`);
+  }
+  void drainIndexingQueue();
+};
+
+const drainIndexingQueue = async () => {
+  if (globalForWorker.indexingWorkerRunning) {
+    return;
+  }
+  globalForWorker.indexingWorkerRunning = true;
+
+  try {
+    while (true) {
+      const job = await claimNextJob();
+      if (!job) {
+        break;
+      }
+      await runIndexingJob(job);
+    }
+  } catch (error) {
+    console.error("Indexing worker stopped unexpectedly:", error);
+  } finally {
+    globalForWorker.indexingWorkerRunning = false;
+  }
+};
+
+const claimNextJob = async (): Promise<IndexingJob | null> => {
+  const next = await db.indexingJob.findFirst({
+    where: { status: "QUEUED" },
+    orderBy: { createdAt: "asc" },
+  });
+  if (!next) {
+    return null;
+  }
+
+  // Only move the job to RUNNING if nobody else claimed it in the meantime
+  const { count } = await db.indexingJob.updateMany({
+    where: { id: next.id, status: "QUEUED" },
+    data: {
+      status: "RUNNING",
+      filesDiscovered: 0,
+      filesSummarised: 0,
+      filesEmbedded: 0,
+      filesFailed: 0,
+      startedAt: new Date(),
+      attempts: { increment: 1 },
+    },
+  });
+  return count === 1 ? next : claimNextJob();
+};
+
+// Jobs queued before credits were charged bill the project's first member
+const getBilledUserId = async (job: IndexingJob) => {
+  return job.userId ?? (await getProjectOwnerId(job.projectId));
+};
+
+/**
+ * Charges for every discovered file before any of them is summarised. A
+ * resumed job already paid for its previous attempt, so only the difference
+ * is taken or given back.
+ */
+const chargeForFiles = async (
+  job: IndexingJob,
+  userId: string,
+  fileCount: number,
+) => {
+  const cost = fileCount * CREDITS_PER_FILE;
+  const usage = {
+    operation: "INDEXING" as const,
+    projectId: job.projectId,
+    description: `Indexing ${fileCount} files`,
+  };
+  await db.$transaction(async (tx) => {
+    const { creditsCharged } = await tx.indexingJob.findUniqueOrThrow({
+      where: { id: job.id },
+      select: { creditsCharged: true },
+    });
+    if (cost > creditsCharged) {
+      await deductCredits(userId, cost - creditsCharged, usage, tx);
+    } else {
+      await refundCredits(userId, creditsCharged - cost, usage, tx);
+    }
+    await tx.indexingJob.update({
+      where: { id: job.id },
+      data: { filesDiscovered: fileCount, creditsCharged: cost },
+    });
+  });
+};
+
+// Failed jobs are refunded in full, finished ones for the files that failed
+const settleCredits = async (
+  job: IndexingJob,
+  userId: string,
+  succeeded: boolean,
+) => {
+  await db.$transaction(async (tx) => {
+    const { creditsCharged, filesFailed } =
+      await tx.indexingJob.findUniqueOrThrow({
+        where: { id: job.id },
+        select: { creditsCharged: true, filesFailed: true },
+      });
+    const refund = succeeded
+      ? Math.min(creditsCharged, filesFailed * CREDITS_PER_FILE)
+      : creditsCharged;
+    await refundCredits(
+      userId,
+      refund,
+      {
+        operation: "INDEXING",
+        projectId: job.projectId,
+        description: succeeded
+          ? `${filesFailed} files could not be indexed`
+          : "Indexing failed",
+      },
+      tx,
+    );
+    await tx.indexingJob.update({
+      where: { id: job.id },
+      data: { creditsCharged: creditsCharged - refund },
+    });
+  });
+};
+
+const createJobProgress = (
+  job: IndexingJob,
+  userId: string,
+): IndexingProgress => {
+  const increment = async (
+    counter: "filesSummarised" | "filesEmbedded" | "filesFailed",
+  ) => {
+    await db.indexingJob.update({
+      where: { id: job.id },
+      data: { [counter]: { increment: 1 } },
+    });
+  };
+
+  return {
+    onDiscovered: (count) => chargeForFiles(job, userId, count),
+    onSummarised: () => increment("filesSummarised"),
+    onEmbedded: () => increment("filesEmbedded"),
+    onFailed: () => increment("filesFailed"),
+  };
+};
+
+const runIndexingJob = async (job: IndexingJob) => {
+  console.log(`Starting indexing job ${job.id} for project ${job.projectId}`);
+
+  let userId: string | undefined;
+  try {
+    userId = await getBilledUserId(job);
+    const project = await db.project.findUniqueOrThrow({
+      where: { id: job.projectId },
+      select: {
+        repoUrl: true,
+        provider: true,
+        branch: true,
+        includeGlobs: true,
+        excludeGlobs: true,
+      },
+    });
+    const provider = getSourceProvider(project, job.accessToken ?? undefined);
+    const rules = await getPathRules(provider, project.branch, project);
+
+    // Read at a fixed commit so links to the indexed code stay valid. Archive
+    // projects have no commits and are read as they are.
+    const [headCommit] = await provider.listCommits(project.branch, 1);
+    await indexRepository(
+      job.projectId,
+      provider,
+      headCommit?.commitHash ?? project.branch,
+      createJobProgress(job, userId),
+      rules,
+    );
+    // The new index covers every commit up to the head, synced or not
+    await db.$transaction([
+      db.project.update({
+        where: { id: job.projectId },
+        data: {
+          indexedCommit: headCommit?.commitHash ?? null,
+          syncError: null,
+        },
+      }),
+      db.commit.updateMany({
+        where: { projectId: job.projectId, syncedAt: null },
+        data: { syncedAt: new Date() },
+      }),
+    ]);
+    await settleCredits(job, userId, true);
+
+    await db.indexingJob.update({
+      where: { id: job.id },
+      data: {
+        status: "SUCCEEDED",
+        accessToken: null,
+        finishedAt: new Date(),
+      },
+    });
+    console.log(`Indexing job ${job.id} succeeded`);
+  } catch (error) {
+    console.error(`Indexing job ${job.id} failed:`, error);
+    if (userId) {
+      await settleCredits(job, userId, false).catch((refundError) =>
+        console.error(`Failed to refund indexing job ${job.id}:`, refundError),
+      );
+    }
+    await db.indexingJob.update({
+      where: { id: job.id },
+      data: {
+        status: "FAILED",
+        accessToken: null,
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date(),
+      },
+    });
+    return;
+  }
+
+  // The index is done and paid for, commits that fail here are picked up by
+  // the next poll
+  try {
+    await pollCommits(job.projectId, userId);
+  } catch (error) {
+    console.error(
+      `Failed to poll commits after indexing job ${job.id}:`,
+      error,
+    );
+  }
+};
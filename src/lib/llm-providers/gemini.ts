@@ -0,0 +1,29 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { type ChatProvider, type ChatRequest } from "./types";
+
+export const createGeminiChatProvider = (): ChatProvider => {
+  const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+  const getModel = (model: string, request: ChatRequest) =>
+    genAI.getGenerativeModel({
+      model,
+      systemInstruction: request.system,
+    });
+
+  return {
+    generate: async (model, request) => {
+      const response = await getModel(model, request).generateContent(
+        request.prompt,
+      );
+      return response.response.text();
+    },
+
+    stream: async function* (model, request) {
+      const result = await getModel(model, request).generateContentStream(
+        request.prompt,
+      );
+      for await (const chunk of result.stream) {
+        yield chunk.text();
+      }
+    },
+  };
+};
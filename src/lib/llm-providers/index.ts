@@ -0,0 +1,109 @@
+import { env } from "@/env";
+import { db } from "@/server/db";
+import { createGeminiChatProvider } from "./gemini";
+import { createOllamaChatProvider } from "./ollama";
+import { createOpenAIChatProvider } from "./openai";
+import { type ChatProvider, type ChatRequest } from "./types";
+
+export type { ChatRequest } from "./types";
+
+export type LlmTask =
+  | "commitSummary"
+  | "codeSummary"
+  | "answer"
+  | "rerank"
+  | "queryRewrite";
+
+const CHAT_PROVIDERS = ["gemini", "openai", "ollama"] as const;
+type ChatProviderKind = (typeof CHAT_PROVIDERS)[number];
+
+// Models are written "<provider>/<model>", e.g. "ollama/llama3.1"
+export const MODEL_REF_PATTERN = new RegExp(
+  `^(${CHAT_PROVIDERS.join("|")})/.+$`,
+);
+
+// Project columns that override the default model for each task, reranking
+// and rewriting follow-ups are part of answering and aren't chosen separately
+const PROJECT_MODEL_FIELDS: Partial<
+  Record<LlmTask, "commitSummaryModel" | "codeSummaryModel" | "answerModel">
+> = {
+  commitSummary: "commitSummaryModel",
+  codeSummary: "codeSummaryModel",
+  answer: "answerModel",
+};
+
+const providers = new Map<ChatProviderKind, ChatProvider>();
+
+const getChatProvider = (kind: ChatProviderKind) => {
+  let provider = providers.get(kind);
+  if (!provider) {
+    switch (kind) {
+      case "gemini":
+        provider = createGeminiChatProvider();
+        break;
+      case "openai":
+        provider = createOpenAIChatProvider({
+          baseUrl: env.OPENAI_BASE_URL,
+          apiKey: env.OPENAI_API_KEY,
+        });
+        break;
+      case "ollama":
+        provider = createOllamaChatProvider(env.OLLAMA_BASE_URL);
+        break;
+    }
+    providers.set(kind, provider);
+  }
+  return provider;
+};
+
+const parseModelRef = (modelRef: string) => {
+  if (!MODEL_REF_PATTERN.test(modelRef)) {
+    throw new Error(`Invalid model "${modelRef}", expected <provider>/<model>`);
+  }
+  const separator = modelRef.indexOf("/");
+  return {
+    provider: getChatProvider(modelRef.slice(0, separator) as ChatProviderKind),
+    model: modelRef.slice(separator + 1),
+  };
+};
+
+export const getDefaultModel = (task: LlmTask) => {
+  const taskDefaults: Record<LlmTask, string | undefined> = {
+    commitSummary: env.LLM_COMMIT_SUMMARY_MODEL,
+    codeSummary: env.LLM_CODE_SUMMARY_MODEL,
+    answer: env.LLM_ANSWER_MODEL,
+    rerank: env.LLM_RERANK_MODEL,
+    queryRewrite: env.LLM_QUERY_REWRITE_MODEL,
+  };
+  return taskDefaults[task] ?? env.LLM_DEFAULT_MODEL;
+};
+
+// The project's model for the task if it picked one, otherwise the default
+export const getTaskModel = async (task: LlmTask, projectId?: string) => {
+  const field = PROJECT_MODEL_FIELDS[task];
+  if (projectId && field) {
+    const project = await db.project.findUnique({
+      where: { id: projectId },
+      select: {
+        commitSummaryModel: true,
+        codeSummaryModel: true,
+        answerModel: true,
+      },
+    });
+    const override = project?.[field];
+    if (override) {
+      return override;
+    }
+  }
+  return getDefaultModel(task);
+};
+
+export const generateText = (modelRef: string, request: ChatRequest) => {
+  const { provider, model } = parseModelRef(modelRef);
+  return provider.generate(model, request);
+};
+
+export const streamText = (modelRef: string, request: ChatRequest) => {
+  const { provider, model } = parseModelRef(modelRef);
+  return provider.stream(model, request);
+};
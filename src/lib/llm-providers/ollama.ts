@@ -0,0 +1,46 @@
+import axios from "axios";
+import { type Readable } from "stream";
+import { type ChatProvider } from "./types";
+import { readLines, toMessages } from "./utils";
+
+type OllamaChatResponse = {
+  message?: { content: string };
+  done: boolean;
+};
+
+// A local Ollama server, or anything else speaking its /api/chat endpoint
+export const createOllamaChatProvider = (baseUrl: string): ChatProvider => {
+  const api = axios.create({ baseURL: baseUrl });
+
+  return {
+    generate: async (model, request) => {
+      const { data } = await api.post<OllamaChatResponse>("/api/chat", {
+        model,
+        messages: toMessages(request),
+        stream: false,
+      });
+      return data.message?.content ?? "";
+    },
+
+    stream: async function* (model, request) {
+      const { data } = await api.post<Readable>(
+        "/api/chat",
+        { model, messages: toMessages(request), stream: true },
+        { responseType: "stream" },
+      );
+      // One JSON object per line
+      for await (const line of readLines(data)) {
+        if (!line.trim()) {
+          continue;
+        }
+        const chunk = JSON.parse(line) as OllamaChatResponse;
+        if (chunk.message?.content) {
+          yield chunk.message.content;
+        }
+        if (chunk.done) {
+          return;
+        }
+      }
+    },
+  };
+};
@@ -0,0 +1,63 @@
+import axios from "axios";
+import { type Readable } from "stream";
+import { withRetry } from "../source-providers/utils";
+import { type ChatProvider } from "./types";
+import { readLines, toMessages } from "./utils";
+
+type ChatCompletion = {
+  choices: { message: { content: string | null } }[];
+};
+
+type ChatCompletionChunk = {
+  choices: { delta: { content?: string | null } }[];
+};
+
+// Any server implementing OpenAI's /chat/completions endpoint
+export const createOpenAIChatProvider = (options: {
+  baseUrl: string;
+  apiKey?: string;
+}): ChatProvider => {
+  const api = axios.create({
+    baseURL: options.baseUrl,
+    headers: options.apiKey
+      ? { Authorization: `Bearer ${options.apiKey}` }
+      : {},
+  });
+
+  return {
+    generate: async (model, request) => {
+      const { data } = await withRetry(() =>
+        api.post<ChatCompletion>("/chat/completions", {
+          model,
+          messages: toMessages(request),
+        }),
+      );
+      return data.choices[0]?.message.content ?? "";
+    },
+
+    stream: async function* (model, request) {
+      const { data } = await withRetry(() =>
+        api.post<Readable>(
+          "/chat/completions",
+          { model, messages: toMessages(request), stream: true },
+          { responseType: "stream" },
+        ),
+      );
+      // Server-sent events, each "data:" line holds one chunk
+      for await (const line of readLines(data)) {
+        const payload = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !payload) {
+          continue;
+        }
+        if (payload === "[DONE]") {
+          return;
+        }
+        const chunk = JSON.parse(payload) as ChatCompletionChunk;
+        const content = chunk.choices[0]?.delta.content;
+        if (content) {
+          yield content;
+        }
+      }
+    },
+  };
+};
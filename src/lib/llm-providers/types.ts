@@ -0,0 +1,11 @@
+export type ChatRequest = {
+  // Instructions kept apart from the user content where the API allows it
+  system?: string;
+  prompt: string;
+};
+
+export interface ChatProvider {
+  generate(model: string, request: ChatRequest): Promise<string>;
+  // Yields the answer as it is generated
+  stream(model: string, request: ChatRequest): AsyncIterable<string>;
+}
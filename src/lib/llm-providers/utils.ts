@@ -0,0 +1,24 @@
+import { type Readable } from "stream";
+import { type ChatRequest } from "./types";
+
+// Chat-style APIs take the system prompt as its own message
+export const toMessages = (request: ChatRequest) => [
+  ...(request.system ? [{ role: "system", content: request.system }] : []),
+  { role: "user", content: request.prompt },
+];
+
+// Splits a streamed HTTP response body into lines, for SSE and NDJSON
+export async function* readLines(body: Readable) {
+  // Streaming decode, a multi-byte character can be split across chunks
+  const decoder = new TextDecoder();
+  let buffered = "";
+  for await (const chunk of body) {
+    buffered += decoder.decode(chunk as Buffer, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop()!;
+    yield* lines;
+  }
+  if (buffered) {
+    yield buffered;
+  }
+}
@@ -0,0 +1,52 @@
+import ignore from "ignore";
+
+// Lockfiles and build output that are never worth summarising
+export const IGNORE_FILES = [
+  "package-lock.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lockb",
+  ".git",
+  "node_modules",
+  "dist",
+  "build",
+];
+
+export const IGNORE_FILE_NAME = ".codojoignore";
+
+export type PathRules = {
+  // Glob patterns, a file is only indexed if it matches one of them (when set)
+  include: string[];
+  // Glob patterns for files that are never indexed
+  exclude: string[];
+  // Contents of the repository's .codojoignore file, if it has one
+  ignoreFile?: string;
+};
+
+export const EMPTY_PATH_RULES: PathRules = { include: [], exclude: [] };
+
+/**
+ * Every rule that removes files, in gitignore syntax. The built-in list uses
+ * bare names, which gitignore matches against any path segment.
+ */
+const toIgnorePatterns = (rules: PathRules) => {
+  return [
+    ...IGNORE_FILES,
+    ...rules.exclude,
+    ...(rules.ignoreFile?.split(/\r?\n/) ?? []),
+  ];
+};
+
+export const createPathFilter = (rules: PathRules) => {
+  const excluded = ignore().add(toIgnorePatterns(rules));
+  const included =
+    rules.include.length > 0 ? ignore().add(rules.include) : null;
+
+  // Returns true for paths that should be indexed
+  return (path: string) => {
+    if (excluded.ignores(path)) {
+      return false;
+    }
+    return included ? included.ignores(path) : true;
+  };
+};
@@ -0,0 +1,20 @@
+import { env } from "@/env";
+import { createStripePaymentProvider } from "./stripe";
+import { type PaymentProvider } from "./types";
+
+export type { Checkout, PaymentProvider } from "./types";
+
+let provider: PaymentProvider | undefined;
+
+// Null when no payment provider is configured, buying credits is disabled then
+export const getPaymentProvider = () => {
+  if (!env.STRIPE_SECRET_KEY) {
+    return null;
+  }
+  provider ??= createStripePaymentProvider({
+    apiUrl: env.STRIPE_API_URL,
+    secretKey: env.STRIPE_SECRET_KEY,
+    webhookSecret: env.STRIPE_WEBHOOK_SECRET,
+  });
+  return provider;
+};
@@ -0,0 +1,114 @@
+import axios from "axios";
+import { createHmac, timingSafeEqual } from "crypto";
+import { withRetry } from "../source-providers/utils";
+import { type Checkout, type PaymentProvider } from "./types";
+
+type CheckoutSession = {
+  id: string;
+  url: string | null;
+  payment_status: "paid" | "unpaid" | "no_payment_required";
+  client_reference_id: string | null;
+  metadata: Record<string, string> | null;
+};
+
+type WebhookEvent = {
+  type: string;
+  data: { object: { id: string } };
+};
+
+// Both mean the checkout may now be paid, the second for delayed payment methods
+const CHECKOUT_EVENTS = [
+  "checkout.session.completed",
+  "checkout.session.async_payment_succeeded",
+];
+// Older events are rejected so a captured one can't be replayed later
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+const toCheckout = (session: CheckoutSession): Checkout => ({
+  id: session.id,
+  url: session.url,
+  paid: session.payment_status === "paid",
+  userId: session.client_reference_id,
+  credits: Number(session.metadata?.credits ?? 0),
+});
+
+/**
+ * Stripe Checkout through its REST API. The base URL can point at
+ * scripts/mock-payment-server.ts to try purchases without a Stripe account.
+ */
+export const createStripePaymentProvider = (options: {
+  apiUrl: string;
+  secretKey: string;
+  webhookSecret?: string;
+}): PaymentProvider => {
+  const api = axios.create({
+    baseURL: `${options.apiUrl}/v1`,
+    headers: { Authorization: `Bearer ${options.secretKey}` },
+  });
+
+  return {
+    createCheckout: async (request) => {
+      // Stripe takes form-encoded bodies with bracketed keys for nesting
+      const body = new URLSearchParams({
+        mode: "payment",
+        success_url: request.successUrl.replace(
+          "{CHECKOUT_ID}",
+          "{CHECKOUT_SESSION_ID}",
+        ),
+        cancel_url: request.cancelUrl,
+        client_reference_id: request.userId,
+        "metadata[credits]": String(request.credits),
+        "line_items[0][quantity]": "1",
+        "line_items[0][price_data][currency]": "usd",
+        "line_items[0][price_data][unit_amount]": String(request.priceCents),
+        "line_items[0][price_data][product_data][name]": `${request.credits} Codojo credits`,
+      });
+      const { data } = await withRetry(() =>
+        api.post<CheckoutSession>("/checkout/sessions", body),
+      );
+      return toCheckout(data);
+    },
+
+    getCheckout: async (checkoutId) => {
+      const { data } = await withRetry(() =>
+        api.get<CheckoutSession>(
+          `/checkout/sessions/${encodeURIComponent(checkoutId)}`,
+        ),
+      );
+      return toCheckout(data);
+    },
+
+    // Stripe-Signature is "t=<timestamp>,v1=<signature>", an HMAC of
+    // "<timestamp>.<payload>" with the endpoint's secret
+    verifyWebhook: (payload, signature) => {
+      if (!options.webhookSecret) {
+        throw new Error("STRIPE_WEBHOOK_SECRET is not set");
+      }
+      const parts = (signature ?? "").split(",").map((part) => part.split("="));
+      const timestamp = Number(parts.find(([key]) => key === "t")?.[1]);
+      if (
+        !timestamp ||
+        Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS
+      ) {
+        throw new Error("Webhook timestamp is missing or too old");
+      }
+      const expected = createHmac("sha256", options.webhookSecret)
+        .update(`${timestamp}.${payload}`)
+        .digest();
+      const signed = parts.some(([key, value]) => {
+        const received = Buffer.from(value ?? "", "hex");
+        return (
+          key === "v1" &&
+          received.length === expected.length &&
+          timingSafeEqual(received, expected)
+        );
+      });
+      if (!signed) {
+        throw new Error("Webhook signature doesn't match");
+      }
+
+      const event = JSON.parse(payload) as WebhookEvent;
+      return CHECKOUT_EVENTS.includes(event.type) ? event.data.object.id : null;
+    },
+  };
+};
@@ -0,0 +1,25 @@
+export type CheckoutRequest = {
+  userId: string;
+  credits: number;
+  priceCents: number;
+  // "{CHECKOUT_ID}" in the URL is replaced with the checkout's id
+  successUrl: string;
+  cancelUrl: string;
+};
+
+export type Checkout = {
+  id: string;
+  // Hosted payment page, only present while the checkout is open
+  url: string | null;
+  paid: boolean;
+  userId: string | null;
+  credits: number;
+};
+
+export interface PaymentProvider {
+  createCheckout(request: CheckoutRequest): Promise<Checkout>;
+  getCheckout(checkoutId: string): Promise<Checkout>;
+  // The id of the checkout a webhook event completed, null for other events.
+  // Throws when the event isn't signed by the provider.
+  verifyWebhook(payload: string, signature: string | null): string | null;
+}
@@ -0,0 +1,55 @@
+import { getPathRules } from "./commits";
+import { CREDITS_PER_FILE } from "./credits";
+import { listIndexedFiles } from "./repo-loader";
+import { type SourceProvider } from "./source-providers";
+
+// Rough throughput of summarising and embedding with the default models
+const ESTIMATED_SECONDS_PER_FILE = 1.5;
+// The listing is for the user to skim, very large trees are cut short
+const MAX_LISTED_FILES = 1000;
+
+export type PreflightResult = {
+  branch: string;
+  files: { path: string; size: number | null }[];
+  // More files would be indexed than are listed
+  truncated: boolean;
+  fileCount: number;
+  totalBytes: number;
+  // False when the host's tree listing left out some sizes
+  sizeKnown: boolean;
+  credits: number;
+  estimatedSeconds: number;
+};
+
+/**
+ * Works out what indexing the repository would involve without indexing it:
+ * the files that pass the .codojoignore rules and the project's globs, their
+ * size and the cost. Any error here means the repository or branch can't be
+ * read.
+ */
+export const preflightRepository = async (
+  provider: SourceProvider,
+  branch?: string,
+  // New projects have no globs yet, only the repository's own ignore file
+  globs: { includeGlobs: string[]; excludeGlobs: string[] } = {
+    includeGlobs: [],
+    excludeGlobs: [],
+  },
+): Promise<PreflightResult> => {
+  const ref = branch ?? (await provider.getDefaultBranch());
+  const rules = await getPathRules(provider, ref, globs);
+  const entries = await listIndexedFiles(provider, ref, rules);
+
+  return {
+    branch: ref,
+    files: entries
+      .slice(0, MAX_LISTED_FILES)
+      .map((entry) => ({ path: entry.path, size: entry.size ?? null })),
+    truncated: entries.length > MAX_LISTED_FILES,
+    fileCount: entries.length,
+    totalBytes: entries.reduce((total, entry) => total + (entry.size ?? 0), 0),
+    sizeKnown: entries.every((entry) => entry.size !== undefined),
+    credits: entries.length * CREDITS_PER_FILE,
+    estimatedSeconds: Math.ceil(entries.length * ESTIMATED_SECONDS_PER_FILE),
+  };
+};
@@ -0,0 +1,367 @@
+import { db } from "@/server/db";
+import { type Document } from "@langchain/core/documents";
+import { type Prisma } from "@prisma/client";
+import pLimit from "p-limit";
+import { chunkCode } from "./chunker";
+import {
+  getCachedEntries,
+  hashContent,
+  setCachedEntry,
+} from "./embedding-cache";
+import {
+  EMPTY_PATH_ALIASES,
+  loadPathAliases,
+  type PathAliases,
+  saveFileDependencies,
+} from "./dependencies";
+import {
+  generateEmbedding,
+  generateEmbeddingsBatch,
+  getEmbeddingProvider,
+} from "./embedding-providers";
+import { getTaskModel } from "./llm-providers";
+import {
+  createPathFilter,
+  EMPTY_PATH_RULES,
+  type PathRules,
+} from "./path-filter";
+import { updateSearchVectors } from "./search";
+import { type SourceProvider } from "./source-providers";
+import { CODE_SUMMARY_PROMPT_VERSION, summariseCode } from "./summaries";
+import { extractSymbols } from "./symbols";
+
+// Files above this size are almost always generated or data, not source
+const MAX_FILE_BYTES = 1024 * 1024;
+// Keeps file downloads under the hosts' secondary rate limits
+const limit = pLimit(4);
+// Storing a large repository's rows in one transaction takes a while
+const SAVE_TRANSACTION_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Hooks for reporting how far an indexing run has got
+export type IndexingProgress = {
+  onDiscovered: (count: number) => Promise<void>;
+  onSummarised: () => Promise<void>;
+  onEmbedded: () => Promise<void>;
+  onFailed: () => Promise<void>;
+};
+
+// The files an index of the ref would read, before binary files are dropped
+export const listIndexedFiles = async (
+  provider: SourceProvider,
+  ref: string,
+  rules: PathRules = EMPTY_PATH_RULES,
+) => {
+  const isIndexed = createPathFilter(rules);
+  return (await provider.listTree(ref)).filter(
+    (entry) => isIndexed(entry.path) && (entry.size ?? 0) <= MAX_FILE_BYTES,
+  );
+};
+
+export const loadRepository = async (
+  provider: SourceProvider,
+  ref: string,
+  rules: PathRules = EMPTY_PATH_RULES,
+): Promise<Document[]> => {
+  const entries = await listIndexedFiles(provider, ref, rules);
+
+  const docs = await Promise.all(
+    entries.map((entry) =>
+      limit(async (): Promise<Document | null> => {
+        try {
+          const content = await provider.readFile(entry.path, ref);
+          // A NUL byte is git's own heuristic for binary content
+          if (content === null || content.includes("\0")) {
+            return null;
+          }
+          return { pageContent: content, metadata: { source: entry.path } };
+        } catch (error) {
+          console.error(`Failed to read ${entry.path}:`, error);
+          return null;
+        }
+      }),
+    ),
+  );
+
+  const loadedDocs = docs.filter((doc): doc is Document => doc !== null);
+  console.log(
+    `Successfully loaded ${loadedDocs.length} documents from ${provider.kind} repository`,
+  );
+  return loadedDocs;
+};
+
+export const indexRepository = async (
+  projectId: string,
+  provider: SourceProvider,
+  branch: string,
+  progress?: IndexingProgress,
+  rules?: PathRules,
+) => {
+  const docs = await loadRepository(provider, branch, rules);
+  await progress?.onDiscovered(docs.length);
+  const model = await getTaskModel("codeSummary", projectId);
+  const allEmbeddings = await generateEmbeddings(docs, model, progress);
+  const aliases = await loadPathAliases(provider, branch);
+  // The previous index stays in place until the new one is stored in full,
+  // a failed run leaves the project searchable as it was
+  await db.$transaction(
+    async (tx) => {
+      await tx.sourceCodeEmbedding.deleteMany({ where: { projectId } });
+      const failedFiles = await saveEmbeddings(
+        tx,
+        projectId,
+        allEmbeddings,
+        progress,
+      );
+      await saveFileDependencies(
+        projectId,
+        docs.filter((doc) => !failedFiles.includes(doc.metadata.source)),
+        aliases,
+        tx,
+      );
+    },
+    { timeout: SAVE_TRANSACTION_TIMEOUT_MS },
+  );
+};
+
+/**
+ * Re-indexes only the files touched by new commits: changed files are
+ * re-summarised and re-embedded, deleted files have their rows dropped.
+ * Returns how many of the changed files could not be indexed, those keep
+ * their previous rows.
+ */
+export const reindexFiles = async (
+  projectId: string,
+  changedDocs: Document[],
+  deletedFiles: string[],
+  aliases: PathAliases = EMPTY_PATH_ALIASES,
+) => {
+  const model = await getTaskModel("codeSummary", projectId);
+  const allEmbeddings = await generateEmbeddings(changedDocs, model);
+
+  // A file that couldn't be summarised, embedded or stored keeps its previous
+  // rows rather than dropping out of the index
+  const failedCount = await db.$transaction(
+    async (tx) => {
+      if (deletedFiles.length > 0) {
+        await tx.sourceCodeEmbedding.deleteMany({
+          where: {
+            projectId,
+            fileName: { in: deletedFiles },
+          },
+        });
+      }
+      const failedFiles = await saveEmbeddings(tx, projectId, allEmbeddings);
+      await saveFileDependencies(
+        projectId,
+        changedDocs.filter(
+          (doc, index) =>
+            allEmbeddings[index] && !failedFiles.includes(doc.metadata.source),
+        ),
+        aliases,
+        tx,
+      );
+      return (
+        allEmbeddings.filter((embedding) => !embedding).length +
+        failedFiles.length
+      );
+    },
+    { timeout: SAVE_TRANSACTION_TIMEOUT_MS },
+  );
+  console.log(
+    `Re-indexed ${changedDocs.length} files and removed ${deletedFiles.length} files`,
+  );
+  return failedCount;
+};
+
+type FileEmbedding = NonNullable<
+  Awaited<ReturnType<typeof generateEmbeddings>>[number]
+>;
+
+// Replaces the file's rows with new ones, see saveEmbeddings
+const storeFile = async (
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  embedding: FileEmbedding,
+) => {
+  const { model: embeddingModel, dimensions } = getEmbeddingProvider();
+  await tx.sourceCodeEmbedding.deleteMany({
+    where: { projectId, fileName: embedding.fileName },
+  });
+  const sourceCodeEmbedding = await tx.sourceCodeEmbedding.create({
+    data: {
+      summary: embedding.summary,
+      summaryPromptVersion: CODE_SUMMARY_PROMPT_VERSION,
+      summaryModel: embedding.summaryModel,
+      sourceCode: embedding.sourceCode,
+      fileName: embedding.fileName,
+      embeddingModel,
+      embeddingDimensions: dimensions,
+      projectId,
+    },
+  });
+  await tx.$executeRaw`
+  UPDATE "SourceCodeEmbedding"
+  SET "summaryEmbedding" = ${embedding.embedding}::vector
+  WHERE "id" = ${sourceCodeEmbedding.id}
+  `;
+  await updateSearchVectors([sourceCodeEmbedding.id], tx);
+  for (const chunk of embedding.chunks) {
+    const sourceCodeChunk = await tx.sourceCodeChunk.create({
+      data: {
+        content: chunk.content,
+        fileName: embedding.fileName,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        embeddingModel,
+        embeddingDimensions: dimensions,
+        sourceCodeEmbeddingId: sourceCodeEmbedding.id,
+        projectId,
+      },
+    });
+    await tx.$executeRaw`
+    UPDATE "SourceCodeChunk"
+    SET "embedding" = ${chunk.embedding}::vector
+    WHERE "id" = ${sourceCodeChunk.id}
+    `;
+  }
+  if (embedding.symbols.length > 0) {
+    await tx.codeSymbol.createMany({
+      data: embedding.symbols.map((symbol) => ({
+        ...symbol,
+        fileName: embedding.fileName,
+        sourceCodeEmbeddingId: sourceCodeEmbedding.id,
+        projectId,
+      })),
+    });
+  }
+};
+
+/**
+ * Stores the files one after another in the caller's transaction. Each one
+ * gets a savepoint: Postgres aborts the whole transaction on a failed
+ * statement, so a file that can't be stored is rolled back to its savepoint
+ * and skipped, keeping any previous rows. Returns the files that were skipped.
+ */
+const saveEmbeddings = async (
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  allEmbeddings: Awaited<ReturnType<typeof generateEmbeddings>>,
+  progress?: IndexingProgress,
+) => {
+  const failedFiles: string[] = [];
+  for (const embedding of allEmbeddings) {
+    if (!embedding) {
+      continue;
+    }
+    await tx.$executeRaw`SAVEPOINT store_file`;
+    try {
+      await storeFile(tx, projectId, embedding);
+    } catch (error) {
+      await tx.$executeRaw`ROLLBACK TO SAVEPOINT store_file`;
+      console.error(
+        `Failed to store embedding for ${embedding.fileName}:`,
+        error,
+      );
+      failedFiles.push(embedding.fileName);
+      await progress?.onFailed();
+      continue;
+    }
+    await tx.$executeRaw`RELEASE SAVEPOINT store_file`;
+    await progress?.onEmbedded();
+  }
+  return failedFiles;
+};
+
+const generateEmbeddings = async (
+  docs: Document[],
+  model: string,
+  progress?: IndexingProgress,
+) => {
+  return await Promise.all(
+    docs.map(async (doc) => {
+      try {
+        const { summary, embedding } = await summariseAndEmbed(doc, model);
+        await progress?.onSummarised();
+
+        // Chunks are embedded from the code itself, prefixed with the file
+        // path but not the line range, so a chunk that merely moved within
+        // its file still hits the cache
+        const chunks = chunkCode(doc.pageContent);
+        const chunkEmbeddings = await embedChunks(
+          chunks.map((chunk) => `${doc.metadata.source}\n${chunk.content}`),
+        );
+        return {
+          summary,
+          summaryModel: model,
+          embedding,
+          chunks: chunks.map((chunk, index) => ({
+            ...chunk,
+            embedding: chunkEmbeddings[index]!,
+          })),
+          symbols: extractSymbols(doc.metadata.source, doc.pageContent),
+          sourceCode: JSON.parse(JSON.stringify(doc.pageContent)),
+          fileName: doc.metadata.source,
+        };
+      } catch (error) {
+        console.error(`Failed to index ${doc.metadata.source}:`, error);
+        await progress?.onFailed();
+        return null;
+      }
+    }),
+  );
+};
+
+/**
+ * Summaries depend on the file path (it is part of the prompt) and content, so
+ * both go into the cache key alongside the prompt and model versions. The
+ * embedding dimensions go in too, the same model can be configured for several.
+ */
+export const summariseAndEmbed = async (doc: Document, model: string) => {
+  const { model: embeddingModel, dimensions } = getEmbeddingProvider();
+  const hash = hashContent(
+    "summary",
+    CODE_SUMMARY_PROMPT_VERSION,
+    model,
+    embeddingModel,
+    String(dimensions),
+    doc.metadata.source as string,
+    doc.pageContent,
+  );
+  const cached = (await getCachedEntries([hash])).get(hash);
+  if (cached?.summary) {
+    return { summary: cached.summary, embedding: cached.embedding };
+  }
+
+  const summary = await summariseCode(doc, model);
+  if (!summary) {
+    throw new Error("Empty summary");
+  }
+  const embedding = await generateEmbedding(summary);
+  await setCachedEntry(hash, embedding, summary);
+  return { summary, embedding };
+};
+
+// Only the texts missing from the cache are sent to the embedding API
+const embedChunks = async (texts: string[]) => {
+  const { model: embeddingModel, dimensions } = getEmbeddingProvider();
+  const hashes = texts.map((text) =>
+    hashContent("chunk", embeddingModel, String(dimensions), text),
+  );
+  const cached = await getCachedEntries(hashes);
+
+  const missing = texts
+    .map((text, index) => ({ text, hash: hashes[index]! }))
+    .filter(({ hash }) => !cached.has(hash));
+  const generated = await generateEmbeddingsBatch(
+    missing.map(({ text }) => text),
+  );
+  await Promise.all(
+    missing.map(({ hash }, index) => setCachedEntry(hash, generated[index]!)),
+  );
+
+  const embeddings = new Map(cached.entries());
+  missing.forEach(({ hash }, index) => {
+    embeddings.set(hash, { summary: null, embedding: generated[index]! });
+  });
+  return hashes.map((hash) => embeddings.get(hash)!.embedding);
+};
@@ -0,0 +1,116 @@
+import { db } from "@/server/db";
+import { z } from "zod";
+import { generateText, getTaskModel } from "./llm-providers";
+import { type SourceCodeResult } from "./search";
+
+// Files that make it into the answer's context after reranking
+const MAX_RERANKED_RESULTS = 5;
+// Code shown to the reranker per file, the matching chunks if there are any
+const MAX_CANDIDATE_CODE_LENGTH = 3000;
+const MAX_SCORE = 10;
+
+export type RerankCandidate = {
+  fileName: string;
+  // Fused retrieval score and vector similarity, before reranking
+  score: number;
+  similarity: number | null;
+  // 0 to 1, null when reranking failed
+  rerankScore: number | null;
+  selected: boolean;
+};
+
+const rerankResponseSchema = z.array(
+  z.object({ file: z.number().int(), score: z.number().min(0) }),
+);
+
+const formatCandidate = (result: SourceCodeResult, index: number) => {
+  const code =
+    result.chunks.length > 0
+      ? result.chunks
+          .map(
+            (chunk) =>
+              `lines ${chunk.startLine}-${chunk.endLine}:\n${chunk.content}`,
+          )
+          .join("\n...\n")
+      : result.sourceCode;
+  return `[${index + 1}] ${result.fileName}\n${code.slice(0, MAX_CANDIDATE_CODE_LENGTH)}`;
+};
+
+// Scores each candidate from 0 to 1 in a single call, listing them all lets
+// the model weigh them against each other
+const scoreCandidates = async (
+  question: string,
+  results: SourceCodeResult[],
+  model: string,
+) => {
+  const response = await generateText(model, {
+    system:
+      "You judge how useful source files are for answering a question about a codebase. You reply with JSON only.",
+    prompt: `Question: ${question}
+
+Files:
+${results.map(formatCandidate).join("\n\n")}
+
+Score every file from 0 (irrelevant) to ${MAX_SCORE} (directly answers the question), judging by the code rather than the file name.
+Reply with a JSON array like [{"file": 1, "score": 7}], one entry per file.`,
+  });
+
+  const json = /\[[\s\S]*\]/.exec(response)?.[0];
+  if (!json) {
+    throw new Error(`Reranker replied without scores: ${response}`);
+  }
+  const scores = new Map(
+    rerankResponseSchema
+      .parse(JSON.parse(json))
+      .map(({ file, score }) => [file - 1, Math.min(score, MAX_SCORE)]),
+  );
+  // Files the model skipped are treated as irrelevant
+  return results.map((_, index) => (scores.get(index) ?? 0) / MAX_SCORE);
+};
+
+/**
+ * Reorders retrieved files by how well their code answers the question and
+ * keeps the best few. The retrieval order is kept if reranking fails. Scores
+ * from before and after are logged for every candidate, selected or not.
+ */
+export const rerankResults = async (
+  question: string,
+  results: SourceCodeResult[],
+  projectId: string,
+): Promise<SourceCodeResult[]> => {
+  if (results.length === 0) {
+    return results;
+  }
+
+  let model: string | null = await getTaskModel("rerank", projectId);
+  let reranked: SourceCodeResult[];
+  try {
+    const scores = await scoreCandidates(question, results, model);
+    reranked = results
+      .map((result, index) => ({ ...result, rerankScore: scores[index] }))
+      // Stable, so equal scores keep their retrieval order
+      .sort((a, b) => b.rerankScore! - a.rerankScore!);
+  } catch (error) {
+    console.error("Reranking failed, keeping the retrieval order:", error);
+    model = null;
+    reranked = results;
+  }
+  const selected = reranked.slice(0, MAX_RERANKED_RESULTS);
+
+  const selectedFiles = new Set(selected.map((result) => result.fileName));
+  const rerankScores = new Map(
+    reranked.map((result) => [result.fileName, result.rerankScore ?? null]),
+  );
+  const candidates: RerankCandidate[] = results.map((result) => ({
+    fileName: result.fileName,
+    score: result.score,
+    similarity: result.similarity ?? null,
+    rerankScore: rerankScores.get(result.fileName) ?? null,
+    selected: selectedFiles.has(result.fileName),
+  }));
+  await db.rerankLog
+    .create({ data: { projectId, question, model, candidates } })
+    .catch((error) => console.error("Failed to log rerank scores:", error));
+
+  return selected;
+};
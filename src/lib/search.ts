@@ -0,0 +1,282 @@
+import { env } from "@/env";
+import { db } from "@/server/db";
+import { Prisma } from "@prisma/client";
+import { getEmbeddingProvider } from "./embedding-providers";
+
+// Types rather than interfaces so results can be stored as JSON
+export type CodeChunkResult = {
+  content: string;
+  startLine: number;
+  endLine: number;
+  similarity: number;
+};
+
+export type SourceCodeResult = {
+  fileName: string;
+  sourceCode: string;
+  summary: string;
+  // Best vector similarity of the file or one of its chunks, if any matched
+  similarity?: number;
+  // Reciprocal-rank fusion score across every retriever that found the file
+  score: number;
+  // How well the code answers the question from 0 to 1, see rerank.ts
+  rerankScore?: number;
+  chunks: CodeChunkResult[];
+};
+
+type FileRow = Pick<SourceCodeResult, "fileName" | "sourceCode" | "summary">;
+
+export const SIMILARITY_THRESHOLD = 0.5;
+// Raw code embeds further from a natural-language question than a summary does
+const CHUNK_SIMILARITY_THRESHOLD = 0.4;
+export const MAX_RESULTS = 10;
+const MAX_CHUNK_RESULTS = 20;
+const MAX_TEXT_RESULTS = 10;
+// Damps the head of each ranking, 60 is the value from the original RRF paper
+const RRF_K = 60;
+// A file defining an identifier named in the question is the likeliest answer
+const DEFINITION_WEIGHT = 2;
+// Identifiers shorter than this are mostly words like "get" or "id"
+const MIN_IDENTIFIER_LENGTH = 3;
+// tsvectors are capped at 1MB, the start of a file is what matters most anyway
+const MAX_SEARCH_TEXT_LENGTH = 200000;
+
+/**
+ * Recomputes the full-text vectors of the given rows. File names are split on
+ * path separators so "src/lib/commits.ts" matches a question about commits,
+ * and names outrank summaries, which outrank code.
+ */
+export const updateSearchVectors = async (
+  ids: string[],
+  client: Prisma.TransactionClient = db,
+) => {
+  if (ids.length === 0) {
+    return;
+  }
+  await client.$executeRaw`
+    UPDATE "SourceCodeEmbedding"
+    SET "searchVector" =
+      setweight(to_tsvector('english', translate("fileName", '/._-', '    ')), 'A') ||
+      setweight(to_tsvector('english', "summary"), 'B') ||
+      setweight(to_tsvector('english', left("sourceCode", ${MAX_SEARCH_TEXT_LENGTH})), 'C')
+    WHERE "id" = ANY(${ids})
+  `;
+};
+
+// Rows indexed before full-text search existed, called once on boot
+export const backfillSearchVectors = async () => {
+  const rows = await db.$queryRaw<{ id: string }[]>`
+    SELECT "id" FROM "SourceCodeEmbedding" WHERE "searchVector" IS NULL
+  `;
+  for (let i = 0; i < rows.length; i += 500) {
+    await updateSearchVectors(rows.slice(i, i + 500).map((row) => row.id));
+  }
+  if (rows.length > 0) {
+    console.log(`Backfilled search vectors for ${rows.length} files`);
+  }
+};
+
+/**
+ * Performs cosine-similarity search over file summaries and code chunks.
+ * Files come back ranked by summary similarity, chunks by their own.
+ *
+ * The queries take the nearest rows by distance and apply the similarity
+ * threshold afterwards, the shape the HNSW indexes can answer. The indexes
+ * cover every project and are filtered to this one while they're walked, so
+ * VECTOR_SEARCH_EF_SEARCH needs raising when a project is a small share of
+ * the table and searches come back short.
+ */
+export async function performVectorSearch(
+  queryVector: number[],
+  projectId: string,
+) {
+  const vectorQuery = `[${queryVector.join(",")}]`;
+  // Vectors from other embedding models live in a different space
+  const { model: embeddingModel, dimensions } = getEmbeddingProvider();
+  // The indexes are on the columns cast to a fixed size and only cover rows
+  // of that size, see prisma/migrations. Neither can be a query parameter.
+  const vectorType = Prisma.raw(`vector(${dimensions})`);
+  const dimensionsLiteral = Prisma.raw(String(dimensions));
+
+  const [, fileResults, chunkResults] = await db.$transaction([
+    // Local to the transaction, so other connections keep their setting
+    db.$queryRaw`SELECT set_config('hnsw.ef_search', ${String(env.VECTOR_SEARCH_EF_SEARCH)}, true)`,
+    db.$queryRaw<(FileRow & { similarity: number })[]>`
+      SELECT * FROM (
+        SELECT
+          "fileName",
+          "sourceCode",
+          "summary",
+          1 - ("summaryEmbedding"::${vectorType} <=> ${vectorQuery}::${vectorType}) AS similarity
+        FROM "SourceCodeEmbedding"
+        WHERE
+          "projectId" = ${projectId}
+          AND "embeddingModel" = ${embeddingModel}
+          AND "embeddingDimensions" = ${dimensionsLiteral}
+        ORDER BY "summaryEmbedding"::${vectorType} <=> ${vectorQuery}::${vectorType}
+        LIMIT ${MAX_RESULTS}
+      ) nearest
+      WHERE similarity > ${SIMILARITY_THRESHOLD}
+      ORDER BY similarity DESC;
+    `,
+    db.$queryRaw<(CodeChunkResult & FileRow)[]>`
+      SELECT
+        c."content",
+        c."startLine",
+        c."endLine",
+        e."fileName",
+        e."sourceCode",
+        e."summary",
+        c."similarity"
+      FROM (
+        SELECT
+          "content",
+          "startLine",
+          "endLine",
+          "sourceCodeEmbeddingId",
+          1 - ("embedding"::${vectorType} <=> ${vectorQuery}::${vectorType}) AS similarity
+        FROM "SourceCodeChunk"
+        WHERE
+          "projectId" = ${projectId}
+          AND "embeddingModel" = ${embeddingModel}
+          AND "embeddingDimensions" = ${dimensionsLiteral}
+        ORDER BY "embedding"::${vectorType} <=> ${vectorQuery}::${vectorType}
+        LIMIT ${MAX_CHUNK_RESULTS}
+      ) c
+      JOIN "SourceCodeEmbedding" e ON e."id" = c."sourceCodeEmbeddingId"
+      WHERE c."similarity" > ${CHUNK_SIMILARITY_THRESHOLD}
+      ORDER BY c."similarity" DESC;
+    `,
+  ]);
+  return { fileResults, chunkResults };
+}
+
+/**
+ * Full-text search with every meaningful word of the question OR-ed together.
+ * The question goes through the same text search config as the indexed text,
+ * so identifiers and error strings are split and stemmed the same way.
+ */
+async function performTextSearch(question: string, projectId: string) {
+  return await db.$queryRaw<FileRow[]>`
+    WITH query AS (
+      SELECT string_agg(
+        '''' || replace(replace(lexeme, '\\', ''), '''', '''''') || '''',
+        ' | '
+      )::tsquery AS q
+      FROM unnest(tsvector_to_array(to_tsvector('english', ${question}))) AS lexeme
+    )
+    SELECT "fileName", "sourceCode", "summary"
+    FROM "SourceCodeEmbedding", query
+    WHERE "projectId" = ${projectId} AND "searchVector" @@ query.q
+    ORDER BY ts_rank_cd("searchVector", query.q) DESC
+    LIMIT ${MAX_TEXT_RESULTS};
+  `;
+}
+
+// Files defining a function, class, type or constant named in the question
+async function findDefinitions(question: string, projectId: string) {
+  const identifiers = [
+    ...new Set(question.match(/[A-Za-z_$][\w$]*/g) ?? []),
+  ].filter((word) => word.length >= MIN_IDENTIFIER_LENGTH);
+  if (identifiers.length === 0) {
+    return [];
+  }
+
+  const symbols = await db.codeSymbol.findMany({
+    where: { projectId, name: { in: identifiers } },
+    orderBy: { exported: "desc" },
+    select: {
+      sourceCodeEmbedding: {
+        select: { fileName: true, sourceCode: true, summary: true },
+      },
+    },
+  });
+  return symbols.map((symbol) => symbol.sourceCodeEmbedding);
+}
+
+/**
+ * Finds the files most relevant to a question by fusing the rankings of
+ * summary similarity, chunk similarity, full-text matches and symbol
+ * definitions. Fusing ranks rather than scores means the retrievers don't
+ * need comparable scores, and a file found by several of them rises.
+ */
+export async function searchCodebase(
+  question: string,
+  queryVector: number[],
+  projectId: string,
+): Promise<SourceCodeResult[]> {
+  try {
+    const [{ fileResults, chunkResults }, textResults, definitions] =
+      await Promise.all([
+        performVectorSearch(queryVector, projectId),
+        performTextSearch(question, projectId),
+        findDefinitions(question, projectId),
+      ]);
+
+    const results = new Map<string, SourceCodeResult>();
+    const addRanking = (files: FileRow[], weight: number) => {
+      const seen = new Set<string>();
+      for (const file of files) {
+        if (seen.has(file.fileName)) {
+          continue;
+        }
+        const result = results.get(file.fileName) ?? {
+          fileName: file.fileName,
+          sourceCode: file.sourceCode,
+          summary: file.summary,
+          score: 0,
+          chunks: [],
+        };
+        result.score += weight / (RRF_K + seen.size + 1);
+        seen.add(file.fileName);
+        results.set(file.fileName, result);
+      }
+    };
+
+    addRanking(fileResults, 1);
+    addRanking(chunkResults, 1);
+    addRanking(textResults, 1);
+    addRanking(definitions, DEFINITION_WEIGHT);
+
+    for (const { similarity, fileName } of fileResults) {
+      results.get(fileName)!.similarity = similarity;
+    }
+    for (const {
+      content,
+      startLine,
+      endLine,
+      similarity,
+      fileName,
+    } of chunkResults) {
+      const result = results.get(fileName)!;
+      result.chunks.push({ content, startLine, endLine, similarity });
+      result.similarity = Math.max(result.similarity ?? 0, similarity);
+    }
+
+    return [...results.values()]
+      .map((result) => ({
+        ...result,
+        chunks: result.chunks.sort((a, b) => a.startLine - b.startLine),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RESULTS);
+  } catch (error) {
+    console.error("Codebase search failed:", error);
+    throw new Error("Failed to search codebase");
+  }
+}
+
+// Files as they're indexed now, for files a conversation was answered from
+export async function getFilesByName(
+  projectId: string,
+  fileNames: string[],
+): Promise<SourceCodeResult[]> {
+  if (fileNames.length === 0) {
+    return [];
+  }
+  const files = await db.sourceCodeEmbedding.findMany({
+    where: { projectId, fileName: { in: fileNames } },
+    select: { fileName: true, sourceCode: true, summary: true },
+  });
+  return files.map((file) => ({ ...file, score: 0, chunks: [] }));
+}
@@ -0,0 +1,69 @@
+import { readdir, readFile, stat } from "fs/promises";
+import path from "path";
+import { getArchiveDir } from "../archives";
+import { type SourceProvider, type TreeEntry } from "./types";
+
+const listFiles = async (root: string, dir = ""): Promise<TreeEntry[]> => {
+  const entries = await readdir(path.join(root, dir), { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(async (entry): Promise<TreeEntry[]> => {
+      const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        return listFiles(root, relativePath);
+      }
+      if (!entry.isFile()) {
+        return [];
+      }
+      const { size } = await stat(path.join(root, relativePath));
+      return [{ path: relativePath, size }];
+    }),
+  );
+  return files.flat();
+};
+
+/**
+ * Uploaded archives are a single snapshot with no history, so refs are
+ * ignored and there are never any commits.
+ */
+export const createArchiveProvider = (storageKey: string): SourceProvider => {
+  const root = getArchiveDir(storageKey);
+
+  return {
+    kind: "ARCHIVE",
+
+    getDefaultBranch: async () => "main",
+
+    listCommits: async () => [],
+
+    getCommitDiff: () => {
+      throw new Error("Archive projects have no commits");
+    },
+
+    getCommitFileChanges: async () => [],
+
+    listTree: () => listFiles(root),
+
+    readFile: async (filePath) => {
+      const target = path.resolve(root, filePath);
+      if (!target.startsWith(root + path.sep)) {
+        return null;
+      }
+      try {
+        return await readFile(target, "utf8");
+      } catch (error) {
+        if (
+          error instanceof Error &&
+          "code" in error &&
+          error.code === "ENOENT"
+        ) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    getCommitUrl: () => null,
+
+    getFileUrl: () => null,
+  };
+};
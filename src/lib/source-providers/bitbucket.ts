@@ -0,0 +1,163 @@
+import { env } from "@/env";
+import axios from "axios";
+import { type FileChange, type SourceProvider, type TreeEntry } from "./types";
+import { encodePath, isNotFound, parseRepoUrl, withRetry } from "./utils";
+
+type BitbucketPage<T> = {
+  values: T[];
+  next?: string;
+};
+
+type BitbucketCommit = {
+  hash: string;
+  message: string;
+  date: string;
+  author: {
+    raw: string;
+    user?: {
+      display_name: string;
+      links: { avatar: { href: string } };
+    };
+  };
+};
+
+type BitbucketDiffStat = {
+  status: "added" | "removed" | "modified" | "renamed" | "merge conflict";
+  old: { path: string } | null;
+  new: { path: string } | null;
+};
+
+// Bitbucket Cloud, authenticated with a repository or workspace access token
+export const createBitbucketProvider = (
+  repoUrl: string,
+  accessToken?: string,
+): SourceProvider => {
+  const { owner: workspace, repo } = parseRepoUrl(repoUrl);
+  const token = accessToken ?? env.BITBUCKET_TOKEN;
+  const api = axios.create({
+    baseURL: `https://api.bitbucket.org/2.0/repositories/${workspace}/${repo}`,
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+
+  // Bitbucket paginates with absolute "next" links
+  const getAllPages = async <T>(url: string, params: object) => {
+    const values: T[] = [];
+    let next: string | undefined = url;
+    let pageParams: object | undefined = params;
+    while (next) {
+      const { data }: { data: BitbucketPage<T> } = await withRetry(() =>
+        api.get<BitbucketPage<T>>(next!, { params: pageParams }),
+      );
+      values.push(...data.values);
+      next = data.next;
+      pageParams = undefined;
+    }
+    return values;
+  };
+
+  return {
+    kind: "BITBUCKET",
+
+    getDefaultBranch: () =>
+      withRetry(async () => {
+        const { data } = await api.get<{ mainbranch: { name: string } }>("");
+        return data.mainbranch.name;
+      }),
+
+    // Commit pages are only reachable through the "next" links
+    listCommits: async (branch, limit, page = 1) => {
+      let next: string | undefined = `/commits/${encodeURIComponent(branch)}`;
+      let pageParams: object | undefined = { pagelen: limit };
+      for (let current = 1; current < page; current++) {
+        const { data }: { data: BitbucketPage<BitbucketCommit> } =
+          await withRetry(() =>
+            api.get<BitbucketPage<BitbucketCommit>>(next!, {
+              params: pageParams,
+            }),
+          );
+        if (!data.next) {
+          return [];
+        }
+        next = data.next;
+        pageParams = undefined;
+      }
+      return withRetry(async () => {
+        const { data } = await api.get<BitbucketPage<BitbucketCommit>>(next!, {
+          params: pageParams,
+        });
+        return data.values.map((commit) => ({
+          commitHash: commit.hash,
+          commitMessage: commit.message,
+          // "raw" is "Name <email>", used when the author has no account
+          commitAuthorName:
+            commit.author.user?.display_name ??
+            commit.author.raw.replace(/\s*<.*>$/, ""),
+          commitAuthorAvatar: commit.author.user?.links.avatar.href ?? "",
+          commitDate: commit.date,
+        }));
+      });
+    },
+
+    getCommitDiff: (commitHash) =>
+      withRetry(async () => {
+        const { data } = await api.get<string>(`/diff/${commitHash}`, {
+          responseType: "text",
+        });
+        return data;
+      }),
+
+    getCommitFileChanges: async (commitHash) => {
+      const stats = await getAllPages<BitbucketDiffStat>(
+        `/diffstat/${commitHash}`,
+        { pagelen: 500 },
+      );
+      return stats.flatMap((stat): FileChange[] => {
+        const changes: FileChange[] = [];
+        if (stat.old && stat.old.path !== stat.new?.path) {
+          changes.push({ path: stat.old.path, status: "deleted" });
+        }
+        if (stat.new) {
+          changes.push({ path: stat.new.path, status: "changed" });
+        }
+        return changes;
+      });
+    },
+
+    listTree: async (ref) => {
+      const entries = await getAllPages<{
+        type: string;
+        path: string;
+        size?: number;
+      }>(`/src/${encodeURIComponent(ref)}/`, { max_depth: 100, pagelen: 100 });
+      return entries
+        .filter((entry) => entry.type === "commit_file")
+        .map((entry): TreeEntry => ({ path: entry.path, size: entry.size }));
+    },
+
+    readFile: (path, ref) =>
+      withRetry(async () => {
+        try {
+          const { data } = await api.get<string>(
+            `/src/${encodeURIComponent(ref)}/${encodePath(path)}`,
+            { responseType: "text" },
+          );
+          return data;
+        } catch (error) {
+          if (isNotFound(error)) {
+            return null;
+          }
+          throw error;
+        }
+      }),
+
+    getCommitUrl: (commitHash) =>
+      `https://bitbucket.org/${workspace}/${repo}/commits/${commitHash}`,
+
+    getFileUrl: (path, ref, line, endLine) => {
+      const anchor = line
+        ? `#lines-${line}${endLine && endLine !== line ? `:${endLine}` : ""}`
+        : "";
+      return `https://bitbucket.org/${workspace}/${repo}/src/${encodePath(ref)}/${encodePath(path)}${anchor}`;
+    },
+  };
+};
@@ -0,0 +1,222 @@
+import { env } from "@/env";
+import { execFile } from "child_process";
+import { createHash } from "crypto";
+import { existsSync } from "fs";
+import { mkdir } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { promisify } from "util";
+import { type FileChange, type SourceProvider } from "./types";
+import { gravatarUrl } from "./utils";
+
+const execFileAsync = promisify(execFile);
+
+// Remote clones are refreshed at most this often
+const FETCH_INTERVAL_MS = 60 * 1000;
+
+// Transports we are happy to let git talk to. Anything else (ext::, fd::,
+// file://) could be used to run commands or read the server's disk.
+const REMOTE_URL_PATTERN = /^(https?:\/\/|ssh:\/\/|git:\/\/|[\w.-]+@[\w.-]+:)/;
+
+const lastFetchedAt = new Map<string, number>();
+
+export const isLocalPath = (repoUrl: string) => path.isAbsolute(repoUrl);
+
+// Refs come from user input, so make sure git can't mistake one for an option
+const assertSafeRef = (ref: string) => {
+  if (ref.startsWith("-")) {
+    throw new Error(`Invalid git ref: ${ref}`);
+  }
+  return ref;
+};
+
+const git = async (args: string[], cwd?: string) => {
+  const { stdout } = await execFileAsync("git", args, {
+    cwd,
+    encoding: "utf8",
+    maxBuffer: 64 * 1024 * 1024,
+    env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
+  });
+  return stdout;
+};
+
+/**
+ * Returns a git directory we can run commands against. Local repositories are
+ * used in place; remote ones are kept as bare clones in the cache directory
+ * and fetched again when they're read.
+ */
+const resolveGitDir = async (repoUrl: string) => {
+  if (isLocalPath(repoUrl)) {
+    const root = env.LOCAL_REPOS_ROOT && path.resolve(env.LOCAL_REPOS_ROOT);
+    const resolved = path.resolve(repoUrl);
+    if (!root || !resolved.startsWith(root + path.sep)) {
+      throw new Error(
+        "Local repositories must live inside the LOCAL_REPOS_ROOT directory",
+      );
+    }
+    return resolved;
+  }
+
+  if (!REMOTE_URL_PATTERN.test(repoUrl)) {
+    throw new Error(`Unsupported git URL: ${repoUrl}`);
+  }
+
+  const cacheDir = env.GIT_CACHE_DIR ?? path.join(tmpdir(), "codojo-git");
+  const gitDir = path.join(
+    cacheDir,
+    createHash("sha256").update(repoUrl).digest("hex"),
+  );
+
+  if (!existsSync(gitDir)) {
+    await mkdir(cacheDir, { recursive: true });
+    await git(["clone", "--bare", "--quiet", "--", repoUrl, gitDir]);
+    lastFetchedAt.set(gitDir, Date.now());
+  } else if (
+    Date.now() - (lastFetchedAt.get(gitDir) ?? 0) >
+    FETCH_INTERVAL_MS
+  ) {
+    await git(
+      ["fetch", "--quiet", "--prune", "origin", "+refs/heads/*:refs/heads/*"],
+      gitDir,
+    );
+    lastFetchedAt.set(gitDir, Date.now());
+  }
+  return gitDir;
+};
+
+/**
+ * Reads repositories with plain git: local working copies and bare clones, or
+ * any remote git URL, without calling a hosting API.
+ */
+export const createGitProvider = (repoUrl: string): SourceProvider => {
+  // Remote repositories are only cloned once something is read from them
+  let gitDirPromise: Promise<string> | undefined;
+  const run = async (args: string[]) => {
+    gitDirPromise ??= resolveGitDir(repoUrl);
+    return git(args, await gitDirPromise);
+  };
+
+  return {
+    kind: "GIT",
+
+    getDefaultBranch: async () => {
+      if (isLocalPath(repoUrl)) {
+        return (await run(["symbolic-ref", "--short", "HEAD"])).trim();
+      }
+
+      // ls-remote answers without cloning, e.g. "ref: refs/heads/main	HEAD"
+      const output = await git([
+        "ls-remote",
+        "--symref",
+        "--",
+        repoUrl,
+        "HEAD",
+      ]);
+      const match = /^ref: refs\/heads\/(\S+)\s+HEAD/m.exec(output);
+      if (!match?.[1]) {
+        throw new Error(`Could not detect the default branch of ${repoUrl}`);
+      }
+      return match[1];
+    },
+
+    listCommits: async (branch, limit, page = 1) => {
+      // Fields are separated by unit separators, commits by record separators
+      const output = await run([
+        "log",
+        `--max-count=${limit}`,
+        `--skip=${(page - 1) * limit}`,
+        "--format=%H%x1f%an%x1f%ae%x1f%aI%x1f%B%x1e",
+        assertSafeRef(branch),
+        "--",
+      ]);
+
+      return output
+        .split("\x1e")
+        .map((record) => record.trim())
+        .filter(Boolean)
+        .map((record) => {
+          const [hash = "", name = "", email = "", date = "", message = ""] =
+            record.split("\x1f");
+          return {
+            commitHash: hash,
+            commitMessage: message.trim(),
+            commitAuthorName: name,
+            commitAuthorAvatar: gravatarUrl(email),
+            commitDate: date,
+          };
+        });
+    },
+
+    getCommitDiff: (commitHash) =>
+      run(["show", "--format=", "--patch", assertSafeRef(commitHash)]),
+
+    getCommitFileChanges: async (commitHash) => {
+      // --root lists the files of the very first commit as additions
+      const output = await run([
+        "diff-tree",
+        "--root",
+        "--no-commit-id",
+        "-r",
+        "-M",
+        "-z",
+        "--name-status",
+        assertSafeRef(commitHash),
+      ]);
+
+      // With -z, entries are "<status>\0<path>\0" or "R<score>\0<from>\0<to>\0"
+      const parts = output.split("\0").filter(Boolean);
+      const changes: FileChange[] = [];
+      for (let i = 0; i < parts.length; ) {
+        const status = parts[i++]!;
+        if (status.startsWith("R")) {
+          changes.push({ path: parts[i++]!, status: "deleted" });
+          changes.push({ path: parts[i++]!, status: "changed" });
+        } else if (status.startsWith("C")) {
+          i++;
+          changes.push({ path: parts[i++]!, status: "changed" });
+        } else {
+          changes.push({
+            path: parts[i++]!,
+            status: status === "D" ? "deleted" : "changed",
+          });
+        }
+      }
+      return changes;
+    },
+
+    listTree: async (ref) => {
+      // Each entry looks like "<mode> blob <sha> <size>\t<path>"
+      const tree = await run([
+        "ls-tree",
+        "-r",
+        "-z",
+        "--long",
+        "--full-tree",
+        assertSafeRef(ref),
+      ]);
+      return tree
+        .split("\0")
+        .filter(Boolean)
+        .map((line) => {
+          const [meta = "", filePath = ""] = line.split("\t");
+          const [, type, , size] = meta.split(/\s+/);
+          return { type, path: filePath, size: Number(size) };
+        })
+        .filter((entry) => entry.type === "blob")
+        .map(({ path, size }) => ({ path, size }));
+    },
+
+    readFile: async (filePath, ref) => {
+      try {
+        return await run(["show", `${assertSafeRef(ref)}:${filePath}`]);
+      } catch {
+        // git exits with an error when the path doesn't exist at that ref
+        return null;
+      }
+    },
+
+    getCommitUrl: () => null,
+
+    getFileUrl: () => null,
+  };
+};
@@ -0,0 +1,129 @@
+import { env } from "@/env";
+import axios from "axios";
+import { type SourceProvider, type TreeEntry } from "./types";
+import {
+  encodePath,
+  fallbackToken,
+  isNotFound,
+  parseDiffFileChanges,
+  parseRepoUrl,
+  withRetry,
+} from "./utils";
+
+type GiteaCommit = {
+  sha: string;
+  commit: {
+    message: string;
+    author: { name: string; date: string };
+  };
+  author: { avatar_url: string } | null;
+};
+
+type GiteaTree = {
+  tree: { path: string; type: string; size: number }[];
+  truncated: boolean;
+  page: number;
+  total_count: number;
+};
+
+const COMMIT_HASH_PATTERN = /^[0-9a-f]{40}$/;
+
+// Gitea and its forks (Forgejo, Codeberg) share the same API
+export const createGiteaProvider = (
+  repoUrl: string,
+  accessToken?: string,
+): SourceProvider => {
+  const { origin, owner, repo } = parseRepoUrl(repoUrl);
+  const token =
+    accessToken ?? fallbackToken(origin, env.GITEA_URL, env.GITEA_TOKEN);
+  const api = axios.create({
+    baseURL: `${origin}/api/v1/repos/${owner}/${repo}`,
+    headers: token ? { Authorization: `token ${token}` } : {},
+  });
+
+  const getCommitDiff = (commitHash: string) =>
+    withRetry(async () => {
+      const { data } = await api.get<string>(
+        `/git/commits/${commitHash}.diff`,
+        { responseType: "text" },
+      );
+      return data;
+    });
+
+  return {
+    kind: "GITEA",
+
+    getDefaultBranch: () =>
+      withRetry(async () => {
+        const { data } = await api.get<{ default_branch: string }>("");
+        return data.default_branch;
+      }),
+
+    listCommits: (branch, limit, page = 1) =>
+      withRetry(async () => {
+        const { data } = await api.get<GiteaCommit[]>("/commits", {
+          params: { sha: branch, limit, page, stat: false, files: false },
+        });
+        return data.map((commit) => ({
+          commitHash: commit.sha,
+          commitMessage: commit.commit.message,
+          commitAuthorName: commit.commit.author.name,
+          commitAuthorAvatar: commit.author?.avatar_url ?? "",
+          commitDate: commit.commit.author.date,
+        }));
+      }),
+
+    getCommitDiff,
+
+    // The commit API lists renamed files without their old path, the diff has both
+    getCommitFileChanges: async (commitHash) =>
+      parseDiffFileChanges(await getCommitDiff(commitHash)),
+
+    listTree: async (ref) => {
+      const entries: TreeEntry[] = [];
+      for (let page = 1; ; page++) {
+        const { data } = await withRetry(() =>
+          api.get<GiteaTree>(`/git/trees/${encodeURIComponent(ref)}`, {
+            params: { recursive: true, per_page: 1000, page },
+          }),
+        );
+        entries.push(
+          ...data.tree
+            .filter((entry) => entry.type === "blob")
+            .map((entry) => ({ path: entry.path, size: entry.size })),
+        );
+        if (!data.truncated || data.tree.length === 0) {
+          return entries;
+        }
+      }
+    },
+
+    readFile: (path, ref) =>
+      withRetry(async () => {
+        try {
+          const { data } = await api.get<string>(`/raw/${encodePath(path)}`, {
+            params: { ref },
+            responseType: "text",
+          });
+          return data;
+        } catch (error) {
+          if (isNotFound(error)) {
+            return null;
+          }
+          throw error;
+        }
+      }),
+
+    getCommitUrl: (commitHash) =>
+      `${origin}/${owner}/${repo}/commit/${commitHash}`,
+
+    // Gitea wants to be told whether the ref is a branch or a commit
+    getFileUrl: (path, ref, line, endLine) => {
+      const refType = COMMIT_HASH_PATTERN.test(ref) ? "commit" : "branch";
+      const anchor = line
+        ? `#L${line}${endLine && endLine !== line ? `-L${endLine}` : ""}`
+        : "";
+      return `${origin}/${owner}/${repo}/src/${refType}/${encodePath(ref)}/${encodePath(path)}${anchor}`;
+    },
+  };
+};
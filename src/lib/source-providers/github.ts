@@ -0,0 +1,150 @@
+import { env } from "@/env";
+import { Octokit } from "octokit";
+import { type FileChange, type SourceProvider, type TreeEntry } from "./types";
+import { encodePath, isNotFound, parseRepoUrl, withRetry } from "./utils";
+
+export const octokit = new Octokit({
+  auth: env.GITHUB_TOKEN,
+});
+
+export const createGithubProvider = (
+  repoUrl: string,
+  accessToken?: string,
+): SourceProvider => {
+  const { origin, owner, repo } = parseRepoUrl(repoUrl);
+  // Private repositories need the user's token, public ones work with ours
+  const client = accessToken ? new Octokit({ auth: accessToken }) : octokit;
+
+  return {
+    kind: "GITHUB",
+
+    getDefaultBranch: () =>
+      withRetry(async () => {
+        const { data } = await client.rest.repos.get({ owner, repo });
+        return data.default_branch;
+      }),
+
+    listCommits: (branch, limit, page = 1) =>
+      withRetry(async () => {
+        const { data } = await client.rest.repos.listCommits({
+          owner,
+          repo,
+          sha: branch,
+          per_page: limit,
+          page,
+        });
+
+        const sortedCommits = data.sort(
+          (a, b) =>
+            new Date(b.commit.author?.date ?? 0).getTime() -
+            new Date(a.commit.author?.date ?? 0).getTime(),
+        );
+
+        return sortedCommits.map((commit) => ({
+          commitHash: commit.sha,
+          commitMessage: commit.commit.message ?? "",
+          commitAuthorName: commit.commit?.author?.name ?? "",
+          commitAuthorAvatar: commit?.author?.avatar_url ?? "",
+          commitDate: commit.commit?.author?.date ?? "",
+        }));
+      }),
+
+    getCommitDiff: (commitHash) =>
+      withRetry(async () => {
+        const { data } = await client.rest.repos.getCommit({
+          owner,
+          repo,
+          ref: commitHash,
+          mediaType: { format: "diff" },
+        });
+        return data as unknown as string;
+      }),
+
+    // Large commits list their files over several pages
+    getCommitFileChanges: async (commitHash) => {
+      const perPage = 100;
+      const files = [];
+      for (let page = 1; ; page++) {
+        const { data } = await withRetry(() =>
+          client.rest.repos.getCommit({
+            owner,
+            repo,
+            ref: commitHash,
+            per_page: perPage,
+            page,
+          }),
+        );
+        files.push(...(data.files ?? []));
+        if ((data.files?.length ?? 0) < perPage) {
+          break;
+        }
+      }
+
+      return files.flatMap((file): FileChange[] => {
+        switch (file.status) {
+          case "removed":
+            return [{ path: file.filename, status: "deleted" }];
+          case "renamed":
+            return [
+              ...(file.previous_filename
+                ? [
+                    {
+                      path: file.previous_filename,
+                      status: "deleted" as const,
+                    },
+                  ]
+                : []),
+              { path: file.filename, status: "changed" },
+            ];
+          default:
+            return [{ path: file.filename, status: "changed" }];
+        }
+      });
+    },
+
+    listTree: (ref) =>
+      withRetry(async () => {
+        const { data } = await client.rest.git.getTree({
+          owner,
+          repo,
+          tree_sha: ref,
+          recursive: "true",
+        });
+        if (data.truncated) {
+          console.warn(`Tree of ${repoUrl} was truncated by the GitHub API`);
+        }
+        return data.tree
+          .filter((entry) => entry.type === "blob" && entry.path)
+          .map((entry): TreeEntry => ({ path: entry.path!, size: entry.size }));
+      }),
+
+    readFile: (path, ref) =>
+      withRetry(async () => {
+        try {
+          const { data } = await client.rest.repos.getContent({
+            owner,
+            repo,
+            path,
+            ref,
+            mediaType: { format: "raw" },
+          });
+          return data as unknown as string;
+        } catch (error) {
+          if (isNotFound(error)) {
+            return null;
+          }
+          throw error;
+        }
+      }),
+
+    getCommitUrl: (commitHash) =>
+      `${origin}/${owner}/${repo}/commits/${commitHash}`,
+
+    getFileUrl: (path, ref, line, endLine) => {
+      const anchor = line
+        ? `#L${line}${endLine && endLine !== line ? `-L${endLine}` : ""}`
+        : "";
+      return `${origin}/${owner}/${repo}/blob/${encodePath(ref)}/${encodePath(path)}${anchor}`;
+    },
+  };
+};
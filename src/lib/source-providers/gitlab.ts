@@ -0,0 +1,153 @@
+import { env } from "@/env";
+import axios from "axios";
+import { type SourceProvider, type TreeEntry } from "./types";
+import {
+  encodePath,
+  fallbackToken,
+  gravatarUrl,
+  isNotFound,
+  parseRepoUrl,
+  withRetry,
+} from "./utils";
+
+type GitlabCommit = {
+  id: string;
+  message: string;
+  author_name: string;
+  author_email: string;
+  authored_date: string;
+};
+
+type GitlabDiff = {
+  old_path: string;
+  new_path: string;
+  diff: string;
+  renamed_file: boolean;
+  deleted_file: boolean;
+};
+
+// Works for gitlab.com and self-hosted instances, including nested groups
+export const createGitlabProvider = (
+  repoUrl: string,
+  accessToken?: string,
+): SourceProvider => {
+  const { origin, path } = parseRepoUrl(repoUrl);
+  const webUrl = `${origin}/${path}`;
+  const token =
+    accessToken ?? fallbackToken(origin, env.GITLAB_URL, env.GITLAB_TOKEN);
+  const api = axios.create({
+    baseURL: `${origin}/api/v4/projects/${encodeURIComponent(path)}`,
+    headers: token ? { "PRIVATE-TOKEN": token } : {},
+  });
+
+  // Paged like the tree, large commits touch more files than fit on a page
+  const getDiffs = async (commitHash: string) => {
+    const diffs: GitlabDiff[] = [];
+    for (let page = 1; ; page++) {
+      const { data, headers } = await withRetry(() =>
+        api.get<GitlabDiff[]>(`/repository/commits/${commitHash}/diff`, {
+          params: { per_page: 100, page },
+        }),
+      );
+      diffs.push(...data);
+      if (!headers["x-next-page"]) {
+        return diffs;
+      }
+    }
+  };
+
+  return {
+    kind: "GITLAB",
+
+    getDefaultBranch: () =>
+      withRetry(async () => {
+        const { data } = await api.get<{ default_branch: string }>("");
+        return data.default_branch;
+      }),
+
+    listCommits: (branch, limit, page = 1) =>
+      withRetry(async () => {
+        const { data } = await api.get<GitlabCommit[]>("/repository/commits", {
+          params: { ref_name: branch, per_page: limit, page },
+        });
+        return data.map((commit) => ({
+          commitHash: commit.id,
+          commitMessage: commit.message,
+          commitAuthorName: commit.author_name,
+          commitAuthorAvatar: gravatarUrl(commit.author_email),
+          commitDate: commit.authored_date,
+        }));
+      }),
+
+    getCommitDiff: async (commitHash) => {
+      const diffs = await getDiffs(commitHash);
+      // The API returns per-file hunks, so rebuild the git headers around them
+      return diffs
+        .map(
+          (file) =>
+            `diff --git a/${file.old_path} b/${file.new_path}\n--- a/${file.old_path}\n+++ b/${file.new_path}\n${file.diff}`,
+        )
+        .join("\n");
+    },
+
+    getCommitFileChanges: async (commitHash) => {
+      const diffs = await getDiffs(commitHash);
+      return diffs.flatMap((file) => {
+        if (file.deleted_file) {
+          return [{ path: file.old_path, status: "deleted" as const }];
+        }
+        if (file.renamed_file) {
+          return [
+            { path: file.old_path, status: "deleted" as const },
+            { path: file.new_path, status: "changed" as const },
+          ];
+        }
+        return [{ path: file.new_path, status: "changed" as const }];
+      });
+    },
+
+    listTree: async (ref) => {
+      const entries: TreeEntry[] = [];
+      for (let page = 1; ; page++) {
+        const { data, headers } = await withRetry(() =>
+          api.get<{ path: string; type: string }[]>("/repository/tree", {
+            params: { ref, recursive: true, per_page: 100, page },
+          }),
+        );
+        entries.push(
+          ...data
+            .filter((entry) => entry.type === "blob")
+            .map((entry) => ({ path: entry.path })),
+        );
+        if (!headers["x-next-page"]) {
+          return entries;
+        }
+      }
+    },
+
+    readFile: (path, ref) =>
+      withRetry(async () => {
+        try {
+          const { data } = await api.get<string>(
+            `/repository/files/${encodeURIComponent(path)}/raw`,
+            { params: { ref }, responseType: "text" },
+          );
+          return data;
+        } catch (error) {
+          if (isNotFound(error)) {
+            return null;
+          }
+          throw error;
+        }
+      }),
+
+    getCommitUrl: (commitHash) => `${webUrl}/-/commit/${commitHash}`,
+
+    getFileUrl: (path, ref, line, endLine) => {
+      const anchor = line
+        ? `#L${line}${endLine && endLine !== line ? `-${endLine}` : ""}`
+        : "";
+      return `${webUrl}/-/blob/${encodePath(ref)}/${encodePath(path)}${anchor}`;
+    },
+  };
+};
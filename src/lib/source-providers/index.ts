@@ -0,0 +1,62 @@
+import { type RepoProvider } from "@prisma/client";
+import { createArchiveProvider } from "./archive";
+import { createBitbucketProvider } from "./bitbucket";
+import { createGitProvider, isLocalPath } from "./git";
+import { createGiteaProvider } from "./gitea";
+import { createGithubProvider } from "./github";
+import { createGitlabProvider } from "./gitlab";
+import { type SourceProvider } from "./types";
+
+export type {
+  FileChange,
+  RepoCommit,
+  SourceProvider,
+  TreeEntry,
+} from "./types";
+
+/**
+ * Picks the provider from the repository reference. Self-hosted GitLab and
+ * Gitea instances on custom domains can't be told apart from their URL, so
+ * those have to be chosen explicitly when the project is created.
+ */
+export const detectRepoProvider = (repoUrl: string): RepoProvider => {
+  if (isLocalPath(repoUrl) || !/^https?:\/\//.test(repoUrl)) {
+    return "GIT";
+  }
+
+  const { hostname } = new URL(repoUrl);
+  if (hostname === "github.com") {
+    return "GITHUB";
+  }
+  if (hostname === "gitlab.com" || hostname.startsWith("gitlab.")) {
+    return "GITLAB";
+  }
+  if (hostname === "bitbucket.org") {
+    return "BITBUCKET";
+  }
+  if (hostname === "codeberg.org" || hostname.startsWith("gitea.")) {
+    return "GITEA";
+  }
+  // Any other host can still be cloned over https
+  return "GIT";
+};
+
+export const getSourceProvider = (
+  project: { repoUrl: string; provider: RepoProvider },
+  accessToken?: string,
+): SourceProvider => {
+  switch (project.provider) {
+    case "GITHUB":
+      return createGithubProvider(project.repoUrl, accessToken);
+    case "GITLAB":
+      return createGitlabProvider(project.repoUrl, accessToken);
+    case "BITBUCKET":
+      return createBitbucketProvider(project.repoUrl, accessToken);
+    case "GITEA":
+      return createGiteaProvider(project.repoUrl, accessToken);
+    case "GIT":
+      return createGitProvider(project.repoUrl);
+    case "ARCHIVE":
+      return createArchiveProvider(project.repoUrl);
+  }
+};
@@ -0,0 +1,49 @@
+import { type RepoProvider } from "@prisma/client";
+
+export type RepoCommit = {
+  commitHash: string;
+  commitMessage: string;
+  commitAuthorName: string;
+  commitAuthorAvatar: string;
+  commitDate: string;
+};
+
+export type FileChange = {
+  path: string;
+  status: "changed" | "deleted";
+};
+
+export type TreeEntry = {
+  path: string;
+  // Not every host reports sizes in its tree listing
+  size?: number;
+};
+
+/**
+ * Everything indexing and commit polling need from a repository host. Refs can
+ * be branch names or commit hashes.
+ */
+export interface SourceProvider {
+  kind: RepoProvider;
+  getDefaultBranch(): Promise<string>;
+  // Newest commits first, in pages of limit commits counted from 1
+  listCommits(
+    branch: string,
+    limit: number,
+    page?: number,
+  ): Promise<RepoCommit[]>;
+  getCommitDiff(commitHash: string): Promise<string>;
+  getCommitFileChanges(commitHash: string): Promise<FileChange[]>;
+  listTree(ref: string): Promise<TreeEntry[]>;
+  // Resolves to null when the file doesn't exist at that ref
+  readFile(path: string, ref: string): Promise<string | null>;
+  // Web page for a commit, null when the repository has no web UI
+  getCommitUrl(commitHash: string): string | null;
+  // Web page for a file, scrolled to the line or lines when given
+  getFileUrl(
+    path: string,
+    ref: string,
+    line?: number,
+    endLine?: number,
+  ): string | null;
+}
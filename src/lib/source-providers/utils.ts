@@ -0,0 +1,105 @@
+import { createHash } from "crypto";
+import { type FileChange } from "./types";
+
+// Rate limiting configuration
+const RETRY_DELAYS = [1000, 2000, 4000, 8000];
+
+// Octokit puts the HTTP status on the error, axios on the response
+const hasStatus = (
+  error: unknown,
+): error is { status?: number; response?: { status?: number } } =>
+  typeof error === "object" && error !== null;
+
+const getErrorStatus = (error: unknown) =>
+  hasStatus(error) ? (error.status ?? error.response?.status) : undefined;
+
+// Retry wrapper function
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  retryCount = 0,
+): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (getErrorStatus(error) === 429 && retryCount < RETRY_DELAYS.length) {
+      const delay = RETRY_DELAYS[retryCount];
+      console.log(
+        `Rate limited. Waiting ${delay}ms before retry ${retryCount + 1}`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return withRetry(fn, retryCount + 1);
+    }
+    throw error;
+  }
+}
+
+export const isNotFound = (error: unknown) => {
+  return getErrorStatus(error) === 404;
+};
+
+/**
+ * Splits a web URL such as https://gitlab.com/group/sub/repo.git into its
+ * origin and the repository path ("group/sub/repo").
+ */
+export const parseRepoUrl = (repoUrl: string) => {
+  let url: URL;
+  try {
+    url = new URL(repoUrl);
+  } catch {
+    throw new Error(`Invalid repository URL: ${repoUrl}`);
+  }
+  const path = url.pathname.replace(/^\/+|\/+$/g, "").replace(/\.git$/, "");
+  const [owner, repo] = path.split("/");
+  if (!owner || !repo) {
+    throw new Error(`Invalid repository URL: ${repoUrl}`);
+  }
+  return { origin: url.origin, path, owner, repo };
+};
+
+// Encodes each segment of a file path for use in a URL path
+export const encodePath = (path: string) => {
+  return path.split("/").map(encodeURIComponent).join("/");
+};
+
+/**
+ * The server's own token for a host, but only when the repository is on the
+ * instance it was issued for. Anyone can create a project pointing at a host
+ * they control, which must not receive the token.
+ */
+export const fallbackToken = (
+  origin: string,
+  hostUrl: string | undefined,
+  token: string | undefined,
+) => (hostUrl && new URL(hostUrl).origin === origin ? token : undefined);
+
+// Hosts without author avatars in their commit APIs fall back to Gravatar
+export const gravatarUrl = (email: string) => {
+  const hash = createHash("md5")
+    .update(email.trim().toLowerCase())
+    .digest("hex");
+  return `https://www.gravatar.com/avatar/${hash}?d=identicon`;
+};
+
+/**
+ * Reads the changed files out of a unified diff, for hosts whose commit APIs
+ * don't report renames and deletions directly.
+ */
+export const parseDiffFileChanges = (diff: string): FileChange[] => {
+  const changes: FileChange[] = [];
+  // Each file section starts with "diff --git a/<from> b/<to>"
+  for (const section of diff.split(/^diff --git /m).slice(1)) {
+    const renameFrom = /^rename from (.+)$/m.exec(section)?.[1];
+    const renameTo = /^rename to (.+)$/m.exec(section)?.[1];
+    const header = /^a\/(.+) b\/(.+)$/m.exec(section);
+    if (renameFrom && renameTo) {
+      changes.push({ path: renameFrom, status: "deleted" });
+      changes.push({ path: renameTo, status: "changed" });
+    } else if (header?.[2]) {
+      changes.push({
+        path: header[2],
+        status: /^deleted file mode/m.test(section) ? "deleted" : "changed",
+      });
+    }
+  }
+  return changes;
+};
@@ -1,12 +1,14 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { type Document } from "@langchain/core/documents";
+import { generateText } from "./llm-providers";
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-const model = genAI.getGenerativeModel({
-  model: "gemini-1.5-flash",
-});
+// Bump these whenever the matching prompt changes. Summaries are stored with
+// the version that wrote them, so outdated ones can be found and regenerated,
+// and cached file summaries from the old prompt are no longer reused.
+export const COMMIT_SUMMARY_PROMPT_VERSION = "1";
+export const CODE_SUMMARY_PROMPT_VERSION = "1";
 
-export const aiSummarizeCommit = async (diff: string) => {
+// model is a "<provider>/<model>" reference, see getTaskModel
+export const aiSummarizeCommit = async (diff: string, model: string) => {
   const prompt = `You are an expert programmer analyzing a git diff for summarization.
 
 Git Diff Format Guide:
@@ -43,35 +45,24 @@ Please summarize the following diff:
 
 ${diff}`;
 
-  const response = await model.generateContent([prompt]);
-  return response.response.text();
+  return await generateText(model, { prompt });
 };
 
-export async function summariseCode(doc: Document) {
+export async function summariseCode(doc: Document, model: string) {
   try {
     console.log("Getting Summary for", doc.metadata.source);
     const code = doc.pageContent.slice(0, 10000);
-    const response = await model.generateContent([
-      `You are an intelligent senior software engineer who specialized in onboarding junior software engineers onto projects`,
-      `You are onboarding a junior software engineer and explaining to them the purpose of the ${doc.metadata.source} file
+    return await generateText(model, {
+      system: `You are an intelligent senior software engineer who specialized in onboarding junior software engineers onto projects`,
+      prompt: `You are onboarding a junior software engineer and explaining to them the purpose of the ${doc.metadata.source} file
      Here is the code
      ---
      ${code}
      ---
      Give a summary no more than 100 words of the code above`,
-    ]);
-    return response.response.text();
+    });
   } catch (error) {
     console.error("Error generating summary", error);
     return "";
   }
 }
-
-export async function generateEmbedding(summary: string) {
-  const model = genAI.getGenerativeModel({
-    model: "text-embedding-004",
-  });
-  const result = await model.embedContent(summary);
-  const embedding = result.embedding;
-  return embedding.values;
-}
@@ -0,0 +1,275 @@
+import { db } from "@/server/db";
+import { type SummaryRegenerationJob } from "@prisma/client";
+import pLimit from "p-limit";
+import { summariesCommit } from "./commits";
+import { getEmbeddingProvider } from "./embedding-providers";
+import { getTaskModel } from "./llm-providers";
+import { summariseAndEmbed } from "./repo-loader";
+import { updateSearchVectors } from "./search";
+import { getSourceProvider, type SourceProvider } from "./source-providers";
+import {
+  CODE_SUMMARY_PROMPT_VERSION,
+  COMMIT_SUMMARY_PROMPT_VERSION,
+} from "./summaries";
+
+// Rows are loaded a page at a time so a large backlog isn't held in memory
+const PAGE_SIZE = 50;
+const limit = pLimit(5);
+
+// Only one run at a time, they'd pick up the same rows otherwise
+const globalForRegeneration = globalThis as unknown as {
+  summaryRegenerationRunning: boolean | undefined;
+};
+
+export class RegenerationRunningError extends Error {
+  constructor() {
+    super("A summary regeneration is already running");
+    this.name = "RegenerationRunningError";
+  }
+}
+
+// Summaries written by another prompt version, or before versioning
+const outdatedSummary = (version: string) => ({
+  OR: [
+    { summaryPromptVersion: null },
+    { summaryPromptVersion: { not: version } },
+  ],
+});
+
+export const countOutdatedSummaries = async (projectId?: string) => {
+  const where = { projectId, project: { deletedAt: null } };
+  const [commits, files] = await Promise.all([
+    db.commit.count({
+      where: { ...where, ...outdatedSummary(COMMIT_SUMMARY_PROMPT_VERSION) },
+    }),
+    db.sourceCodeEmbedding.count({
+      where: { ...where, ...outdatedSummary(CODE_SUMMARY_PROMPT_VERSION) },
+    }),
+  ]);
+  return { commits, files };
+};
+
+/**
+ * Starts regenerating outdated summaries in the background, commits first.
+ * The budget caps how many summaries are attempted, failures included, since
+ * each attempt is a paid model call.
+ */
+export const startSummaryRegeneration = async (
+  budget: number,
+  projectId?: string,
+) => {
+  if (globalForRegeneration.summaryRegenerationRunning) {
+    throw new RegenerationRunningError();
+  }
+  globalForRegeneration.summaryRegenerationRunning = true;
+
+  try {
+    // Runs still marked as running were cut short by a restart
+    await db.summaryRegenerationJob.updateMany({
+      where: { status: "RUNNING" },
+      data: {
+        status: "FAILED",
+        error: "Interrupted by a server restart",
+        finishedAt: new Date(),
+      },
+    });
+    const job = await db.summaryRegenerationJob.create({
+      data: { projectId, budget },
+    });
+    void runRegeneration(job);
+    return job;
+  } catch (error) {
+    globalForRegeneration.summaryRegenerationRunning = false;
+    throw error;
+  }
+};
+
+const runRegeneration = async (job: SummaryRegenerationJob) => {
+  console.log(`Starting summary regeneration ${job.id}`);
+  try {
+    const attempted = await regenerateCommits(job, job.budget);
+    await regenerateFiles(job, job.budget - attempted);
+
+    await db.summaryRegenerationJob.update({
+      where: { id: job.id },
+      data: { status: "SUCCEEDED", finishedAt: new Date() },
+    });
+    console.log(`Summary regeneration ${job.id} finished`);
+  } catch (error) {
+    console.error(`Summary regeneration ${job.id} failed:`, error);
+    await db.summaryRegenerationJob.update({
+      where: { id: job.id },
+      data: {
+        status: "FAILED",
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date(),
+      },
+    });
+  } finally {
+    globalForRegeneration.summaryRegenerationRunning = false;
+  }
+};
+
+const recordResult = async (
+  jobId: string,
+  counter: "commitsRegenerated" | "filesRegenerated",
+  succeeded: boolean,
+) => {
+  await db.summaryRegenerationJob.update({
+    where: { id: jobId },
+    data: { [succeeded ? counter : "failed"]: { increment: 1 } },
+  });
+};
+
+// Each project summarises with its own model, and commits need its host
+const createProjectCache = <T>(load: (projectId: string) => Promise<T>) => {
+  const cache = new Map<string, Promise<T>>();
+  return (projectId: string) => {
+    let value = cache.get(projectId);
+    if (!value) {
+      value = load(projectId);
+      cache.set(projectId, value);
+    }
+    return value;
+  };
+};
+
+// Returns how many commits were attempted
+const regenerateCommits = async (
+  job: SummaryRegenerationJob,
+  budget: number,
+) => {
+  const getModel = createProjectCache((projectId) =>
+    getTaskModel("commitSummary", projectId),
+  );
+  const getProvider = createProjectCache(
+    async (projectId): Promise<SourceProvider> =>
+      getSourceProvider(
+        await db.project.findUniqueOrThrow({
+          where: { id: projectId },
+          select: { repoUrl: true, provider: true },
+        }),
+      ),
+  );
+
+  let attempted = 0;
+  let lastId: string | undefined;
+  while (attempted < budget) {
+    const commits = await db.commit.findMany({
+      where: {
+        projectId: job.projectId ?? undefined,
+        project: { deletedAt: null },
+        id: lastId ? { gt: lastId } : undefined,
+        ...outdatedSummary(COMMIT_SUMMARY_PROMPT_VERSION),
+      },
+      orderBy: { id: "asc" },
+      take: Math.min(PAGE_SIZE, budget - attempted),
+      select: { id: true, projectId: true, commitHash: true },
+    });
+    if (commits.length === 0) {
+      break;
+    }
+    attempted += commits.length;
+    lastId = commits[commits.length - 1]!.id;
+
+    await Promise.all(
+      commits.map((commit) =>
+        limit(async () => {
+          try {
+            const model = await getModel(commit.projectId);
+            const summary = await summariesCommit(
+              await getProvider(commit.projectId),
+              commit.commitHash,
+              model,
+            );
+            if (summary === null) {
+              throw new Error("No summary generated");
+            }
+            await db.commit.update({
+              where: { id: commit.id },
+              data: {
+                summary,
+                summaryPromptVersion: COMMIT_SUMMARY_PROMPT_VERSION,
+                summaryModel: model,
+              },
+            });
+            await recordResult(job.id, "commitsRegenerated", true);
+          } catch (error) {
+            console.error(`Failed to regenerate ${commit.commitHash}:`, error);
+            await recordResult(job.id, "commitsRegenerated", false);
+          }
+        }),
+      ),
+    );
+  }
+  return attempted;
+};
+
+/**
+ * File summaries are embedded for search, so the summary's embedding is
+ * replaced along with it. Chunk embeddings don't depend on the summary.
+ */
+const regenerateFiles = async (job: SummaryRegenerationJob, budget: number) => {
+  const getModel = createProjectCache((projectId) =>
+    getTaskModel("codeSummary", projectId),
+  );
+  const { model: embeddingModel, dimensions } = getEmbeddingProvider();
+
+  let attempted = 0;
+  let lastId: string | undefined;
+  while (attempted < budget) {
+    const files = await db.sourceCodeEmbedding.findMany({
+      where: {
+        projectId: job.projectId ?? undefined,
+        project: { deletedAt: null },
+        id: lastId ? { gt: lastId } : undefined,
+        ...outdatedSummary(CODE_SUMMARY_PROMPT_VERSION),
+      },
+      orderBy: { id: "asc" },
+      take: Math.min(PAGE_SIZE, budget - attempted),
+      select: { id: true, projectId: true, fileName: true, sourceCode: true },
+    });
+    if (files.length === 0) {
+      break;
+    }
+    attempted += files.length;
+    lastId = files[files.length - 1]!.id;
+
+    await Promise.all(
+      files.map((file) =>
+        limit(async () => {
+          try {
+            const model = await getModel(file.projectId);
+            const { summary, embedding } = await summariseAndEmbed(
+              {
+                pageContent: file.sourceCode,
+                metadata: { source: file.fileName },
+              },
+              model,
+            );
+            await db.sourceCodeEmbedding.update({
+              where: { id: file.id },
+              data: {
+                summary,
+                summaryPromptVersion: CODE_SUMMARY_PROMPT_VERSION,
+                summaryModel: model,
+                embeddingModel,
+                embeddingDimensions: dimensions,
+              },
+            });
+            await db.$executeRaw`
+            UPDATE "SourceCodeEmbedding"
+            SET "summaryEmbedding" = ${embedding}::vector
+            WHERE "id" = ${file.id}
+            `;
+            await updateSearchVectors([file.id]);
+            await recordResult(job.id, "filesRegenerated", true);
+          } catch (error) {
+            console.error(`Failed to regenerate ${file.fileName}:`, error);
+            await recordResult(job.id, "filesRegenerated", false);
+          }
+        }),
+      ),
+    );
+  }
+};
@@ -0,0 +1,36 @@
+import path from "path";
+import { type ExtractedSymbol, type SymbolExtractor } from "./types";
+import { typescriptExtractor } from "./typescript";
+
+export type { ExtractedSymbol, SymbolExtractor } from "./types";
+
+const extractors = new Map<string, SymbolExtractor>();
+
+/**
+ * Adds support for another language. A later registration for the same
+ * extension replaces the earlier one.
+ */
+export const registerSymbolExtractor = (extractor: SymbolExtractor) => {
+  for (const extension of extractor.extensions) {
+    extractors.set(extension.toLowerCase(), extractor);
+  }
+};
+
+registerSymbolExtractor(typescriptExtractor);
+
+// Files in languages without an extractor have no symbols
+export const extractSymbols = (
+  fileName: string,
+  code: string,
+): ExtractedSymbol[] => {
+  const extractor = extractors.get(path.extname(fileName).toLowerCase());
+  if (!extractor) {
+    return [];
+  }
+  try {
+    return extractor.extract(code);
+  } catch (error) {
+    console.error(`Failed to extract symbols from ${fileName}:`, error);
+    return [];
+  }
+};
@@ -0,0 +1,19 @@
+import { type SymbolKind } from "@prisma/client";
+
+export type ExtractedSymbol = {
+  name: string;
+  kind: SymbolKind;
+  // 1-based, so it can be shown to users and used in host line anchors as-is
+  line: number;
+  exported: boolean;
+};
+
+/**
+ * Finds the top-level definitions in one language. Extractors are picked by
+ * file extension, see registerSymbolExtractor.
+ */
+export interface SymbolExtractor {
+  // Lowercase and including the dot, e.g. ".ts"
+  extensions: string[];
+  extract(code: string): ExtractedSymbol[];
+}
@@ -0,0 +1,124 @@
+import { type SymbolKind } from "@prisma/client";
+import { type ExtractedSymbol, type SymbolExtractor } from "./types";
+
+// Modifiers that can come before a declaration keyword, "export" is captured
+// separately so we know whether the symbol is part of the module's API
+const MODIFIERS = String.raw`(?:(?:default|declare|abstract|async)\s+)*`;
+
+const DECLARATION_PATTERNS: { kind: SymbolKind; pattern: RegExp }[] = [
+  {
+    kind: "FUNCTION",
+    pattern: new RegExp(
+      String.raw`^(export\s+)?${MODIFIERS}function\s*\*?\s*([A-Za-z_$][\w$]*)`,
+    ),
+  },
+  {
+    kind: "CLASS",
+    pattern: new RegExp(
+      String.raw`^(export\s+)?${MODIFIERS}class\s+([A-Za-z_$][\w$]*)`,
+    ),
+  },
+  {
+    kind: "INTERFACE",
+    pattern: new RegExp(
+      String.raw`^(export\s+)?${MODIFIERS}interface\s+([A-Za-z_$][\w$]*)`,
+    ),
+  },
+  {
+    kind: "TYPE",
+    pattern: new RegExp(
+      String.raw`^(export\s+)?${MODIFIERS}type\s+([A-Za-z_$][\w$]*)\s*[<=]`,
+    ),
+  },
+  {
+    kind: "ENUM",
+    pattern: new RegExp(
+      String.raw`^(export\s+)?${MODIFIERS}(?:const\s+)?enum\s+([A-Za-z_$][\w$]*)`,
+    ),
+  },
+];
+
+// "const name = ..." with the initializer, to tell functions from values
+const VARIABLE_PATTERN =
+  /^(export\s+)?(?:declare\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(.*)$/;
+
+// "export { a, b as c }" on a single line without a "from" clause, or
+// "export default a"
+const EXPORT_LIST_PATTERN =
+  /^export\s*(?:\{([^}]*)\}|default\s+([A-Za-z_$][\w$]*))\s*;?\s*$/;
+
+// Initializers that make a variable a function: arrows and function expressions
+const FUNCTION_INITIALIZER_PATTERN =
+  /^(async\s+)?(function\b|\([^)]*\)\s*(:[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>|\($)/;
+
+/**
+ * Line-based like the chunker: only declarations starting in the first column
+ * count, which skips locals and methods without needing a full parser.
+ */
+const extract = (code: string): ExtractedSymbol[] => {
+  const symbols: ExtractedSymbol[] = [];
+  // Values that are only kept if an export list names them later
+  const privateValues = new Map<string, number>();
+
+  code.split("\n").forEach((line, index) => {
+    const exportList = EXPORT_LIST_PATTERN.exec(line);
+    if (exportList) {
+      const specifiers = exportList[1]?.split(",") ?? [exportList[2]!];
+      for (const specifier of specifiers) {
+        const localName = specifier.trim().split(/\s+as\s+/)[0];
+        const symbol = symbols.find((symbol) => symbol.name === localName);
+        if (symbol) {
+          symbol.exported = true;
+        } else if (localName && privateValues.has(localName)) {
+          symbols.push({
+            name: localName,
+            kind: "CONSTANT",
+            line: privateValues.get(localName)!,
+            exported: true,
+          });
+        }
+      }
+      return;
+    }
+
+    for (const { kind, pattern } of DECLARATION_PATTERNS) {
+      const match = pattern.exec(line);
+      if (match?.[2]) {
+        symbols.push({
+          name: match[2],
+          kind,
+          line: index + 1,
+          exported: Boolean(match[1]),
+        });
+        return;
+      }
+    }
+
+    const variable = VARIABLE_PATTERN.exec(line);
+    if (!variable?.[2]) {
+      return;
+    }
+    const exported = Boolean(variable[1]);
+    const isFunction = FUNCTION_INITIALIZER_PATTERN.test(
+      variable[3]?.trim() ?? "",
+    );
+    // Module-private values are too noisy to be worth indexing
+    if (!isFunction && !exported) {
+      privateValues.set(variable[2], index + 1);
+    } else {
+      symbols.push({
+        name: variable[2],
+        kind: isFunction ? "FUNCTION" : "CONSTANT",
+        line: index + 1,
+        exported,
+      });
+    }
+  });
+
+  return symbols.sort((a, b) => a.line - b.line);
+};
+
+export const typescriptExtractor: SymbolExtractor = {
+  extensions: [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"],
+  extract,
+};
@@ -1,5 +1,10 @@
 import { createCallerFactory, createTRPCRouter } from "@/server/api/trpc";
+import { adminRouter } from "./routers/admin";
+import { billingRouter } from "./routers/billing";
+import { dependencyRouter } from "./routers/dependency";
 import { projectRouter } from "./routers/project";
+import { questionRouter } from "./routers/question";
+import { symbolRouter } from "./routers/symbol";
 
 /**
  * This is the primary router for your server.
@@ -8,6 +13,11 @@ import { projectRouter } from "./routers/project";
  */
 export const appRouter = createTRPCRouter({
   project: projectRouter,
+  symbol: symbolRouter,
+  dependency: dependencyRouter,
+  billing: billingRouter,
+  admin: adminRouter,
+  question: questionRouter,
 });
 
 // export type definition of API
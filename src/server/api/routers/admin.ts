@@ -0,0 +1,45 @@
+import { isAdminUser } from "@/lib/admin";
+import {
+  countOutdatedSummaries,
+  RegenerationRunningError,
+  startSummaryRegeneration,
+} from "@/lib/summary-regeneration";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { adminProcedure, createTRPCRouter, protectedProcedure } from "../trpc";
+
+export const adminRouter = createTRPCRouter({
+  isAdmin: protectedProcedure.query(({ ctx }) => {
+    return isAdminUser(ctx.user.userId);
+  }),
+  getOutdatedSummaries: adminProcedure
+    .input(z.object({ projectId: z.string().optional() }))
+    .query(async ({ input }) => {
+      return await countOutdatedSummaries(input.projectId);
+    }),
+  getSummaryRegenerationJobs: adminProcedure.query(async ({ ctx }) => {
+    return await ctx.db.summaryRegenerationJob.findMany({
+      orderBy: { createdAt: "desc" },
+      take: 10,
+      include: { project: { select: { name: true } } },
+    });
+  }),
+  startSummaryRegeneration: adminProcedure
+    .input(
+      z.object({
+        // Every project when left out
+        projectId: z.string().optional(),
+        budget: z.number().int().min(1).max(10000),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        return await startSummaryRegeneration(input.budget, input.projectId);
+      } catch (error) {
+        if (error instanceof RegenerationRunningError) {
+          throw new TRPCError({ code: "CONFLICT", message: error.message });
+        }
+        throw error;
+      }
+    }),
+});
@@ -0,0 +1,179 @@
+import { env } from "@/env";
+import {
+  addPurchasedCredits,
+  CREDIT_PACKS,
+  CREDITS_PER_COMMIT,
+  CREDITS_PER_FILE,
+  CREDITS_PER_QUESTION,
+} from "@/lib/credits";
+import { getPaymentProvider } from "@/lib/payment-providers";
+import { CreditOperation, CreditTransactionType } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const billingRouter = createTRPCRouter({
+  getBalance: protectedProcedure.query(async ({ ctx }) => {
+    const user = await ctx.db.user.findUnique({
+      where: { id: ctx.user.userId! },
+      select: { credits: true },
+    });
+    return {
+      credits: user?.credits ?? 0,
+      canPurchase: getPaymentProvider() !== null,
+      packs: CREDIT_PACKS,
+      costs: {
+        file: CREDITS_PER_FILE,
+        commit: CREDITS_PER_COMMIT,
+        question: CREDITS_PER_QUESTION,
+      },
+    };
+  }),
+  getTransactions: protectedProcedure
+    .input(
+      z.object({
+        type: z.nativeEnum(CreditTransactionType).optional(),
+        projectId: z.string().optional(),
+        cursor: z.string().optional(),
+        limit: z.number().int().min(1).max(100).default(25),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const transactions = await ctx.db.creditTransaction.findMany({
+        where: {
+          userId: ctx.user.userId!,
+          type: input.type,
+          projectId: input.projectId,
+        },
+        include: { project: { select: { name: true } } },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        skip: input.cursor ? 1 : 0,
+        take: input.limit + 1,
+      });
+      const hasMore = transactions.length > input.limit;
+      const items = transactions.slice(0, input.limit);
+      return {
+        items,
+        nextCursor: hasMore ? items[items.length - 1]!.id : undefined,
+      };
+    }),
+  // Credits spent per day and operation, net of refunds, oldest day first
+  getUsage: protectedProcedure
+    .input(z.object({ days: z.number().int().min(1).max(365).default(30) }))
+    .query(async ({ ctx, input }) => {
+      const today = new Date();
+      today.setUTCHours(0, 0, 0, 0);
+      const since = new Date(today.getTime() - (input.days - 1) * DAY_MS);
+
+      const transactions = await ctx.db.creditTransaction.findMany({
+        where: {
+          userId: ctx.user.userId!,
+          type: { in: ["SPEND", "REFUND"] },
+          operation: { not: null },
+          createdAt: { gte: since },
+        },
+        select: { createdAt: true, amount: true, operation: true },
+      });
+
+      const days = Array.from({ length: input.days }, (_, index) => ({
+        date: new Date(since.getTime() + index * DAY_MS)
+          .toISOString()
+          .slice(0, 10),
+        ...(Object.fromEntries(
+          Object.values(CreditOperation).map((operation) => [operation, 0]),
+        ) as Record<CreditOperation, number>),
+      }));
+      for (const transaction of transactions) {
+        const index = Math.floor(
+          (transaction.createdAt.getTime() - since.getTime()) / DAY_MS,
+        );
+        const day = days[index];
+        if (day && transaction.operation) {
+          // Spending is stored negative, refunds positive
+          day[transaction.operation] -= transaction.amount;
+        }
+      }
+      return days;
+    }),
+  createCheckout: protectedProcedure
+    .input(z.object({ packId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const provider = getPaymentProvider();
+      if (!provider) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Buying credits isn't enabled on this server",
+        });
+      }
+      const pack = CREDIT_PACKS.find((pack) => pack.id === input.packId);
+      if (!pack) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Unknown credit pack",
+        });
+      }
+
+      try {
+        const checkout = await provider.createCheckout({
+          userId: ctx.user.userId!,
+          credits: pack.credits,
+          priceCents: pack.priceCents,
+          successUrl: `${env.APP_URL}/billing?checkout={CHECKOUT_ID}`,
+          cancelUrl: `${env.APP_URL}/billing`,
+        });
+        return { url: checkout.url };
+      } catch (error) {
+        console.error("Failed to create checkout:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Could not start the checkout, please try again",
+        });
+      }
+    }),
+  /**
+   * Called when the user comes back from the payment page. The checkout is
+   * looked up with the provider rather than trusting the redirect, and can be
+   * confirmed any number of times while only being paid out once. Users who
+   * don't come back are credited by the webhook in api/webhooks/stripe.
+   */
+  confirmCheckout: protectedProcedure
+    .input(z.object({ checkoutId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const provider = getPaymentProvider();
+      if (!provider) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Buying credits isn't enabled on this server",
+        });
+      }
+
+      const checkout = await provider
+        .getCheckout(input.checkoutId)
+        .catch((error) => {
+          console.error("Failed to fetch checkout:", error);
+          return null;
+        });
+      if (!checkout || checkout.userId !== ctx.user.userId) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Checkout not found",
+        });
+      }
+      if (!checkout.paid) {
+        return { status: "unpaid" as const, credits: 0 };
+      }
+
+      const added = await addPurchasedCredits(
+        ctx.user.userId!,
+        checkout.credits,
+        checkout.id,
+      );
+      return {
+        status: added ? ("paid" as const) : ("already_applied" as const),
+        credits: checkout.credits,
+      };
+    }),
+});
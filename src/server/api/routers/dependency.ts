@@ -0,0 +1,69 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+
+export const dependencyRouter = createTRPCRouter({
+  // Every import edge in the project, with the files they connect
+  getGraph: protectedProcedure
+    .input(z.object({ projectId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const project = await ctx.db.project.findFirst({
+        where: {
+          id: input.projectId,
+          deletedAt: null,
+          UserToProject: { some: { userId: ctx.user.userId! } },
+        },
+        select: { id: true },
+      });
+      if (!project) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Project not found",
+        });
+      }
+
+      const edges = await ctx.db.fileDependency.findMany({
+        where: { projectId: project.id },
+        select: { fromFile: true, toFile: true },
+      });
+      const files = new Set(
+        edges.flatMap((edge) => [edge.fromFile, edge.toFile]),
+      );
+      return { files: [...files].sort(), edges };
+    }),
+  getFileDependencies: protectedProcedure
+    .input(z.object({ projectId: z.string(), fileName: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const project = await ctx.db.project.findFirst({
+        where: {
+          id: input.projectId,
+          deletedAt: null,
+          UserToProject: { some: { userId: ctx.user.userId! } },
+        },
+        select: { id: true },
+      });
+      if (!project) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Project not found",
+        });
+      }
+
+      const [dependsOn, dependedOnBy] = await Promise.all([
+        ctx.db.fileDependency.findMany({
+          where: { projectId: project.id, fromFile: input.fileName },
+          select: { toFile: true },
+          orderBy: { toFile: "asc" },
+        }),
+        ctx.db.fileDependency.findMany({
+          where: { projectId: project.id, toFile: input.fileName },
+          select: { fromFile: true },
+          orderBy: { fromFile: "asc" },
+        }),
+      ]);
+      return {
+        dependsOn: dependsOn.map((edge) => edge.toFile),
+        dependedOnBy: dependedOnBy.map((edge) => edge.fromFile),
+      };
+    }),
+});
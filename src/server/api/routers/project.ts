@@ -1,21 +1,110 @@
-import { pollCommits } from "@/lib/github";
-import { indexGithubRepo } from "@/lib/github-loader";
+import { getProjectOwnerId, pollCommits } from "@/lib/commits";
+import { getCredits, InsufficientCreditsError } from "@/lib/credits";
+import { enqueueIndexingJob } from "@/lib/indexing-jobs";
+import { MODEL_REF_PATTERN } from "@/lib/llm-providers";
+import { preflightRepository, type PreflightResult } from "@/lib/preflight";
+import {
+  detectRepoProvider,
+  getSourceProvider,
+  type SourceProvider,
+} from "@/lib/source-providers";
+import { RepoProvider } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "../trpc";
+
+// "<provider>/<model>", or empty to fall back to the default model
+const modelRef = z
+  .string()
+  .trim()
+  .refine((value) => value === "" || MODEL_REF_PATTERN.test(value), {
+    message: "Models are written <provider>/<model>, e.g. ollama/llama3.1",
+  })
+  .transform((value) => value || null);
+
+// A repository to link, as entered on the create page
+const repositoryInput = z.object({
+  repoUrl: z.string().trim().min(1),
+  // Defaults to the provider detected from the URL
+  provider: z
+    .nativeEnum(RepoProvider)
+    .refine((provider) => provider !== "ARCHIVE", {
+      message: "Archives have to be uploaded",
+    })
+    .optional(),
+  accessToken: z.string().optional(),
+  // Defaults to the repository's default branch
+  branch: z.string().optional(),
+});
+
+/**
+ * Reads the repository the way indexing will, so that bad URLs, private
+ * repositories without a token and unknown branches fail before a project is
+ * stored.
+ */
+const checkRepository = async (input: z.infer<typeof repositoryInput>) => {
+  const accessToken = input.accessToken || undefined;
+  let repository: { repoUrl: string; provider: RepoProvider };
+  let provider: SourceProvider;
+  try {
+    repository = {
+      repoUrl: input.repoUrl,
+      provider: input.provider ?? detectRepoProvider(input.repoUrl),
+    };
+    provider = getSourceProvider(repository, accessToken);
+  } catch (error) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message:
+        error instanceof Error ? error.message : "Invalid repository URL",
+    });
+  }
+
+  const branch = input.branch?.trim() || undefined;
+  try {
+    const preflight = await preflightRepository(provider, branch);
+    return { repository, accessToken, preflight };
+  } catch (error) {
+    console.error(`Failed to check repository ${input.repoUrl}:`, error);
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: branch
+        ? `Could not read the "${branch}" branch. Check that it exists, and add an access token for private repositories`
+        : "Could not access the repository. Check the URL, and add an access token for private repositories",
+    });
+  }
+};
+
 export const projectRouter = createTRPCRouter({
+  // What linking the repository would index and cost, without linking it
+  checkRepository: protectedProcedure
+    .input(repositoryInput)
+    .mutation(async ({ ctx, input }) => {
+      const { preflight } = await checkRepository(input);
+      return {
+        ...preflight,
+        balance: await getCredits(ctx.user.userId!),
+      };
+    }),
   createProject: protectedProcedure
-    .input(
-      z.object({
-        name: z.string(),
-        githubUrl: z.string(),
-        githubToken: z.string().optional(),
-      }),
-    )
+    .input(repositoryInput.extend({ name: z.string() }))
     .mutation(async ({ ctx, input }) => {
+      const { repository, accessToken, preflight } =
+        await checkRepository(input);
+      const available = await getCredits(ctx.user.userId!);
+      if (available < preflight.credits) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: new InsufficientCreditsError(preflight.credits, available)
+            .message,
+        });
+      }
+
       const project = await ctx.db.project.create({
         data: {
-          githubUrl: input.githubUrl,
+          ...repository,
           name: input.name,
+          branch: preflight.branch,
           UserToProject: {
             create: {
               userId: ctx.user.userId!,
@@ -23,9 +112,103 @@ export const projectRouter = createTRPCRouter({
           },
         },
       });
-      await indexGithubRepo(project.id, input.githubUrl, input.githubToken);
-      await pollCommits(project.id);
-      return project;
+      const job = await enqueueIndexingJob(
+        project.id,
+        ctx.user.userId!,
+        accessToken,
+      );
+      return { project, jobId: job.id };
+    }),
+  updateProject: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        branch: z.string().trim().min(1),
+        includeGlobs: z.array(z.string().trim().min(1)),
+        excludeGlobs: z.array(z.string().trim().min(1)),
+        commitSummaryModel: modelRef.optional(),
+        codeSummaryModel: modelRef.optional(),
+        answerModel: modelRef.optional(),
+        // Tokens aren't kept, private repositories need one to be re-indexed
+        accessToken: z.string().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const project = await ctx.db.project.findFirst({
+        where: {
+          id: input.projectId,
+          deletedAt: null,
+          UserToProject: {
+            some: {
+              userId: ctx.user.userId!,
+            },
+          },
+        },
+      });
+      if (!project) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Project not found",
+        });
+      }
+
+      const branchChanged = project.branch !== input.branch;
+      const rulesChanged =
+        project.includeGlobs.join("\n") !== input.includeGlobs.join("\n") ||
+        project.excludeGlobs.join("\n") !== input.excludeGlobs.join("\n");
+      const reindex = branchChanged || rulesChanged;
+      const accessToken = input.accessToken || undefined;
+
+      // Nothing is saved unless the new branch can be read and the re-index
+      // paid for, like creating a project
+      if (reindex) {
+        let preflight: PreflightResult;
+        try {
+          preflight = await preflightRepository(
+            getSourceProvider(project, accessToken),
+            input.branch,
+            input,
+          );
+        } catch (error) {
+          console.error(
+            `Failed to check repository ${project.repoUrl}:`,
+            error,
+          );
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Could not read the "${input.branch}" branch. Check that it exists, and add an access token for private repositories`,
+          });
+        }
+        const available = await getCredits(ctx.user.userId!);
+        if (available < preflight.credits) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: new InsufficientCreditsError(preflight.credits, available)
+              .message,
+          });
+        }
+      }
+
+      const updatedProject = await ctx.db.project.update({
+        where: { id: project.id },
+        data: {
+          branch: input.branch,
+          includeGlobs: input.includeGlobs,
+          excludeGlobs: input.excludeGlobs,
+          commitSummaryModel: input.commitSummaryModel,
+          codeSummaryModel: input.codeSummaryModel,
+          answerModel: input.answerModel,
+        },
+      });
+
+      // Commits from the old branch no longer apply
+      if (branchChanged) {
+        await ctx.db.commit.deleteMany({ where: { projectId: project.id } });
+      }
+      if (reindex) {
+        await enqueueIndexingJob(project.id, ctx.user.userId!, accessToken);
+      }
+      return updatedProject;
     }),
   getProjects: protectedProcedure.query(async ({ ctx }) => {
     return await ctx.db.project.findMany({
@@ -46,10 +229,75 @@ export const projectRouter = createTRPCRouter({
       }),
     )
     .query(async ({ ctx, input }) => {
-      pollCommits(input.projectId).then().catch(console.error);
-      return await ctx.db.commit.findMany({
+      const project = await ctx.db.project.findFirst({
+        where: {
+          id: input.projectId,
+          deletedAt: null,
+          UserToProject: { some: { userId: ctx.user.userId! } },
+        },
+        select: {
+          repoUrl: true,
+          provider: true,
+          IndexingJob: {
+            where: { status: { in: ["QUEUED", "RUNNING"] } },
+            select: { id: true },
+            take: 1,
+          },
+        },
+      });
+      if (!project) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Project not found",
+        });
+      }
+      // Viewing the list checks for new commits, billed to the owner rather
+      // than whoever happens to look. Not while the project is being indexed,
+      // the job polls once it's done.
+      if (project.IndexingJob.length === 0) {
+        getProjectOwnerId(input.projectId)
+          .then((ownerId) => pollCommits(input.projectId, ownerId))
+          .catch(console.error);
+      }
+      const provider = getSourceProvider(project);
+      const commits = await ctx.db.commit.findMany({
+        where: {
+          projectId: input.projectId,
+        },
+      });
+      return commits.map((commit) => ({
+        ...commit,
+        commitUrl: provider.getCommitUrl(commit.commitHash),
+      }));
+    }),
+  getIndexingStatus: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      return await ctx.db.indexingJob.findFirst({
         where: {
           projectId: input.projectId,
+          project: {
+            deletedAt: null,
+            UserToProject: { some: { userId: ctx.user.userId! } },
+          },
+        },
+        orderBy: {
+          createdAt: "desc",
+        },
+        select: {
+          id: true,
+          status: true,
+          error: true,
+          filesDiscovered: true,
+          filesSummarised: true,
+          filesEmbedded: true,
+          filesFailed: true,
+          // New commits that couldn't be re-indexed since the job finished
+          project: { select: { syncError: true } },
         },
       });
     }),
@@ -0,0 +1,185 @@
+import { type SourceCodeResult } from "@/lib/search";
+import { getSourceProvider } from "@/lib/source-providers";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+
+const authorSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  imageUrl: true,
+} as const;
+
+// Questions are shared with everyone on the project
+const memberOf = (userId: string) => ({
+  deletedAt: null,
+  UserToProject: { some: { userId } },
+});
+
+export const questionRouter = createTRPCRouter({
+  getQuestions: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        // Matched against the question and the answer
+        search: z.string().trim().max(200).optional(),
+        authorId: z.string().optional(),
+        from: z.date().optional(),
+        to: z.date().optional(),
+        cursor: z.string().optional(),
+        limit: z.number().int().min(1).max(100).default(20),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const questions = await ctx.db.question.findMany({
+        where: {
+          projectId: input.projectId,
+          project: memberOf(ctx.user.userId!),
+          userId: input.authorId,
+          createdAt: { gte: input.from, lte: input.to },
+          OR: input.search
+            ? [
+                { question: { contains: input.search, mode: "insensitive" } },
+                { answer: { contains: input.search, mode: "insensitive" } },
+              ]
+            : undefined,
+        },
+        select: {
+          id: true,
+          createdAt: true,
+          question: true,
+          answer: true,
+          user: { select: authorSelect },
+        },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        skip: input.cursor ? 1 : 0,
+        take: input.limit + 1,
+      });
+      const hasMore = questions.length > input.limit;
+      const items = questions.slice(0, input.limit);
+      return {
+        items,
+        nextCursor: hasMore ? items[items.length - 1]!.id : undefined,
+      };
+    }),
+  getQuestion: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const question = await ctx.db.question.findFirst({
+        where: { id: input.id, project: memberOf(ctx.user.userId!) },
+        include: {
+          user: { select: authorSelect },
+          conversation: {
+            select: {
+              id: true,
+              Question: {
+                orderBy: { createdAt: "asc" },
+                select: {
+                  question: true,
+                  answer: true,
+                  filesReferences: true,
+                  indexedCommit: true,
+                },
+              },
+            },
+          },
+        },
+      });
+      if (!question) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Question not found",
+        });
+      }
+      const { conversation, ...rest } = question;
+      return {
+        ...rest,
+        filesReferences: (question.filesReferences ?? []) as SourceCodeResult[],
+        // Only the asker can continue their conversation
+        conversation:
+          conversation && question.userId === ctx.user.userId
+            ? {
+                id: conversation.id,
+                turns: conversation.Question.map((turn) => ({
+                  ...turn,
+                  filesReferences: (turn.filesReferences ??
+                    []) as SourceCodeResult[],
+                })),
+              }
+            : null,
+        canDelete: question.userId === ctx.user.userId,
+      };
+    }),
+  // Where the cited lines are on the repository host, null when it has no web UI
+  getCitationLinks: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.string(),
+        // The commit the answer was given at, the project's branch when null
+        indexedCommit: z.string().nullable(),
+        citations: z
+          .array(
+            z.object({
+              fileName: z.string(),
+              startLine: z.number().int().min(1),
+              endLine: z.number().int().min(1),
+            }),
+          )
+          .max(100),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const project = await ctx.db.project.findFirst({
+        where: { id: input.projectId, ...memberOf(ctx.user.userId!) },
+        select: { repoUrl: true, provider: true, branch: true },
+      });
+      if (!project) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Project not found",
+        });
+      }
+      const provider = getSourceProvider(project);
+      return input.citations.map((citation) =>
+        provider.getFileUrl(
+          citation.fileName,
+          input.indexedCommit ?? project.branch,
+          citation.startLine,
+          citation.endLine,
+        ),
+      );
+    }),
+  // Everyone who has asked a question in the project, for filtering by author
+  getAuthors: protectedProcedure
+    .input(z.object({ projectId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      return await ctx.db.user.findMany({
+        where: {
+          Question: {
+            some: {
+              projectId: input.projectId,
+              project: memberOf(ctx.user.userId!),
+            },
+          },
+        },
+        select: authorSelect,
+        orderBy: [{ firstName: "asc" }, { lastName: "asc" }],
+      });
+    }),
+  // Only whoever asked the question can delete it
+  deleteQuestion: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.db.question.deleteMany({
+        where: { id: input.id, userId: ctx.user.userId! },
+      });
+      if (count === 0) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Question not found",
+        });
+      }
+    }),
+});
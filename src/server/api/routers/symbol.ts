@@ -0,0 +1,98 @@
+import { getSourceProvider } from "@/lib/source-providers";
+import { Prisma, type RepoProvider, type SymbolKind } from "@prisma/client";
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+
+// pg_trgm similarity below this isn't worth showing as a fuzzy match
+const FUZZY_SIMILARITY_THRESHOLD = 0.3;
+
+type SymbolRow = {
+  id: string;
+  name: string;
+  kind: SymbolKind;
+  fileName: string;
+  line: number;
+  exported: boolean;
+  projectId: string;
+  projectName: string;
+  repoUrl: string;
+  provider: RepoProvider;
+  branch: string;
+  score: number;
+};
+
+// Escapes the wildcards of a LIKE pattern
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+export const symbolRouter = createTRPCRouter({
+  /**
+   * Finds symbol definitions in the projects the user belongs to, or in one
+   * project when projectId is given. Exact matches always rank first.
+   */
+  searchSymbols: protectedProcedure
+    .input(
+      z.object({
+        query: z.string().trim().min(1).max(200),
+        projectId: z.string().optional(),
+        mode: z.enum(["exact", "fuzzy"]).default("fuzzy"),
+        limit: z.number().int().min(1).max(100).default(50),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const projectFilter = input.projectId
+        ? Prisma.sql`AND s."projectId" = ${input.projectId}`
+        : Prisma.empty;
+      const matchFilter =
+        input.mode === "exact"
+          ? Prisma.sql`s."name" = ${input.query}`
+          : Prisma.sql`(
+              s."name" ILIKE ${`%${escapeLike(input.query)}%`}
+              OR similarity(s."name", ${input.query}) >= ${FUZZY_SIMILARITY_THRESHOLD}
+            )`;
+
+      const rows = await ctx.db.$queryRaw<SymbolRow[]>`
+        SELECT
+          s."id",
+          s."name",
+          s."kind",
+          s."fileName",
+          s."line",
+          s."exported",
+          s."projectId",
+          p."name" AS "projectName",
+          p."githubUrl" AS "repoUrl",
+          p."provider",
+          p."branch",
+          similarity(s."name", ${input.query})::float AS "score"
+        FROM "CodeSymbol" s
+        JOIN "Project" p ON p."id" = s."projectId" AND p."deletedAt" IS NULL
+        JOIN "UserToProject" u ON u."projectId" = s."projectId"
+          AND u."userId" = ${ctx.user.userId!}
+        WHERE ${matchFilter} ${projectFilter}
+        ORDER BY
+          s."name" = ${input.query} DESC,
+          lower(s."name") = lower(${input.query}) DESC,
+          "score" DESC,
+          s."exported" DESC,
+          s."name"
+        LIMIT ${input.limit}
+      `;
+
+      const providers = new Map<string, ReturnType<typeof getSourceProvider>>();
+      return rows.map(({ repoUrl, provider, branch, ...symbol }) => {
+        if (!providers.has(symbol.projectId)) {
+          providers.set(
+            symbol.projectId,
+            getSourceProvider({ repoUrl, provider }),
+          );
+        }
+        return {
+          ...symbol,
+          exactMatch: symbol.name === input.query,
+          fileUrl: providers
+            .get(symbol.projectId)!
+            .getFileUrl(symbol.fileName, branch, symbol.line),
+        };
+      });
+    }),
+});
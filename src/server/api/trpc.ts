@@ -10,6 +10,7 @@ import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
 
+import { isAdminUser } from "@/lib/admin";
 import { db } from "@/server/db";
 import { auth } from "@clerk/nextjs/server";
 
@@ -124,3 +125,18 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
 export const publicProcedure = t.procedure.use(timingMiddleware);
 
 export const protectedProcedure = t.procedure.use(isAuthenticated);
+
+/**
+ * Admin procedure
+ *
+ * For maintenance actions across every project, limited to the users listed in ADMIN_USER_IDS.
+ */
+export const adminProcedure = protectedProcedure.use(async ({ next, ctx }) => {
+  if (!isAdminUser(ctx.user.userId)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only admins can do this",
+    });
+  }
+  return next();
+});